@@ -1,11 +1,332 @@
 // deno-lint-ignore no-unused-vars verbatim-module-syntax
 import React from 'react';
-import { use, useEffect } from 'react';
+import { use, useEffect, useReducer, useRef, useState } from 'react';
 import type { RpcCompatible, RpcStub } from 'capnweb';
 
 // RpcStub from capnweb supports promise pipelining where RpcPromise values can be passed as parameters
 // We use 'any' in the interface to avoid type constraint issues, but RpcStub<T> in implementations
 
+/**
+ * Key identifying a cached hook result.
+ * `useCapnWeb` results are keyed by `[apiName, ...args]` and
+ * `useCapnWebQuery` results by `['!' + operationName, ...deps]`, so a filter
+ * for one never selects the other.
+ */
+export type CapnWebQueryKey = readonly unknown[];
+
+/**
+ * Selects cached hook results, either by key prefix (`['getUser']` matches
+ * every `getUser` call regardless of its arguments) or by predicate.
+ */
+export type CapnWebQueryFilter =
+  | CapnWebQueryKey
+  | ((key: CapnWebQueryKey) => boolean);
+
+/**
+ * Options controlling when cached hook results are revalidated.
+ * Set them for every hook via the `queryCache` option of the `init*` functions,
+ * or per hook by passing `{ method, ...options }` to `useCapnWeb` or
+ * `{ name, ...options }` to `useCapnWebQuery`.
+ */
+export interface CapnWebQueryOptions {
+  /**
+   * Milliseconds after which a loaded result is considered stale. A component
+   * mounting with a stale result renders it immediately, while a background
+   * refetch runs and pushes the new value to every component using it.
+   * Results are kept after their components unmount when this is set, so
+   * remounting shows the cached value instead of a Suspense fallback.
+   * @default Infinity (results never go stale)
+   */
+  staleTime?: number;
+
+  /**
+   * Refetch a cached result in the background whenever a component using it
+   * mounts, rendering the cached value in the meantime. Like `staleTime`,
+   * this keeps results cached after their components unmount.
+   * @default false
+   */
+  revalidateOnMount?: boolean;
+
+  /**
+   * Re-run the call whenever the transport reconnects, so long-running
+   * queries pick up state the new session may have missed. Only persistent
+   * transports such as WebSocket reconnect.
+   * @default false
+   */
+  live?: boolean;
+
+  /**
+   * Aborts the call, rejecting it with the signal's reason (an `AbortError`
+   * unless given another). Transports that can, such as HTTP Batch, cancel
+   * the request itself. Results rejected with an `AbortError` or
+   * `TimeoutError` are not kept for later mounts. The signal is not part of
+   * the cache key.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Cache options accepted by every transport initialization function.
+ */
+export interface CapnWebCacheOptions
+  extends Omit<CapnWebQueryOptions, 'signal'> {
+  /**
+   * Milliseconds a settled result is kept once no mounted component uses it.
+   * Results are only kept past the unmount of their last component when
+   * `staleTime` or `revalidateOnMount` is set; otherwise they are dropped on
+   * unmount, and this only limits how long results that no component mounted
+   * with, such as those of a render that was thrown away, stay cached.
+   * @default 60000
+   */
+  gcTime?: number;
+
+  /**
+   * Milliseconds between sweeps removing results older than `gcTime`.
+   * The sweep only runs while the cache holds entries, and stops when the
+   * hooks are closed.
+   * @default 10000
+   */
+  sweepInterval?: number;
+
+  /**
+   * Maximum number of cached results. When exceeded, the least recently used
+   * settled results that no mounted component uses are evicted.
+   * @default Infinity
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Receives the library's log output. Each method takes the same arguments as
+ * the `console` method of the same name, so `console` itself is a logger.
+ */
+export interface CapnWebLogger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+const silentLogger: CapnWebLogger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/**
+ * Returns the logger to use for a `logger` option: `console` when it is
+ * omitted, and a logger discarding everything when it is `false`.
+ */
+export function resolveLogger(logger?: CapnWebLogger | false): CapnWebLogger {
+  if (logger === false) {
+    return silentLogger;
+  }
+  return logger ?? console;
+}
+
+/**
+ * Options for creating hooks with `createHooks`.
+ */
+export interface CapnWebHooksOptions {
+  /**
+   * Defaults for how the hooks cache RPC results.
+   */
+  queryCache?: CapnWebCacheOptions;
+
+  /**
+   * Receives log output, `console` by default. Pass `false` to silence it.
+   */
+  logger?: CapnWebLogger | false;
+
+  /**
+   * Registers a listener the transport calls whenever a replacement session
+   * has connected, including after the transport is reopened following
+   * close(). Live operations are replayed from this listener.
+   */
+  subscribeToReconnect?: (listener: () => void) => void;
+
+  /**
+   * After a reconnect, drop pending and failed results left by the old session
+   * and re-run the queries of mounted components on the new one.
+   * @default false
+   */
+  refetchOnReconnect?: boolean;
+
+  /**
+   * Handshake run against the raw stub of every new session, such as an
+   * `authenticate(token)` call. It resolves to the stub that the hooks and
+   * `getCapnWebStub()` use for that session. A failed handshake is run again
+   * by the next call. Used by `createCapnWebHooksWithLifecycle`.
+   */
+  onSession?: (stub: any) => any;
+
+  /**
+   * Returns a promise for the stub to call once the session handshake is in
+   * progress, or undefined when `getCapnWebStub()` can be called right away.
+   * Calls made by the hooks wait for it, so suspending hooks suspend meanwhile.
+   */
+  sessionReady?: () => Promise<any> | undefined;
+}
+
+/**
+ * Result of the non-suspending `useCapnWebState` and `useCapnWebQueryState` hooks.
+ */
+export interface CapnWebQueryState<R> {
+  /**
+   * The resolved value, kept while a background refetch runs.
+   */
+  data: R | undefined;
+
+  /**
+   * The error the RPC call failed with, if it did.
+   */
+  error: Error | null;
+
+  /**
+   * `pending` until the first result arrives, then `success` or `error`.
+   */
+  status: 'pending' | 'success' | 'error';
+
+  /**
+   * Whether an RPC call for this result is in flight, including background refetches.
+   */
+  isFetching: boolean;
+
+  /**
+   * Re-run the RPC call. Already loaded data stays visible until the new
+   * value arrives.
+   */
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Result of `useCapnWebQuery` when called with `{ name, withRefetch: true }`.
+ */
+export interface CapnWebQueryResult<R> {
+  /**
+   * The resolved value, kept while a refetch runs.
+   */
+  data: R;
+
+  /**
+   * Re-run the query. The current data stays visible until the new value
+   * arrives.
+   */
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Arguments of a subscription method, which are all of its parameters except
+ * the trailing event callback.
+ */
+export type CapnWebSubscriptionArgs<F> = F extends
+  (...args: [...infer P, (event: any) => any]) => any ? P : never;
+
+/**
+ * Event type a subscription method pushes to its trailing callback.
+ */
+export type CapnWebSubscriptionEvent<F> = F extends
+  (...args: [...any[], (event: infer E) => any]) => any ? E : never;
+
+/**
+ * State returned by `useCapnWebSubscription`.
+ */
+export interface CapnWebSubscriptionState<E> {
+  /**
+   * The latest event pushed by the server, if any.
+   */
+  data: E | undefined;
+
+  /**
+   * The error the subscription call failed with, if it did.
+   */
+  error: Error | null;
+
+  /**
+   * `subscribing` until the subscription call returns, then `active`, or
+   * `error` if it failed.
+   */
+  status: 'subscribing' | 'active' | 'error';
+}
+
+/**
+ * Lifecycle status of a mutation.
+ */
+export type CapnWebMutationStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/**
+ * An optimistic change to the cached result with exactly the given key.
+ */
+export interface CapnWebOptimisticUpdate<V> {
+  /**
+   * Key of the cached result to update, e.g. `['getTodos']`.
+   */
+  key: CapnWebQueryKey;
+
+  /**
+   * Computes the optimistic value from the cached value and the mutation variables.
+   */
+  update: (current: any, variables: V) => any;
+}
+
+/**
+ * Options for `useCapnWebMutation`.
+ */
+export interface CapnWebMutationOptions<R, V> {
+  /**
+   * Cached hook results to invalidate once the mutation succeeds, as key
+   * prefixes or predicates (see `invalidate`). Pass a function to derive them
+   * from the mutation's result and variables.
+   */
+  invalidates?:
+    | CapnWebQueryFilter[]
+    | ((data: R, variables: V) => CapnWebQueryFilter[]);
+
+  /**
+   * Optimistic changes to cached hook results, applied before the RPC call is
+   * made and rolled back if it fails. Only results that have already loaded
+   * are updated; combine with `invalidates` to replace them with server data
+   * once the mutation succeeds.
+   */
+  optimistic?: CapnWebOptimisticUpdate<V> | CapnWebOptimisticUpdate<V>[];
+}
+
+/**
+ * State and controls returned by `useCapnWebMutation`.
+ */
+export interface CapnWebMutationResult<R, V> {
+  /**
+   * Run the mutation. Failures are reported through `status` and `error`.
+   */
+  mutate: (variables: V) => void;
+
+  /**
+   * Run the mutation and return its result. Rejects if the mutation fails.
+   */
+  mutateAsync: (variables: V) => Promise<R>;
+
+  /**
+   * Status of the most recent mutation.
+   */
+  status: CapnWebMutationStatus;
+
+  /**
+   * Error of the most recent mutation, if it failed.
+   */
+  error: Error | null;
+
+  /**
+   * Result of the most recent mutation, if it succeeded.
+   */
+  data: R | undefined;
+
+  /**
+   * Reset the state back to `idle`.
+   */
+  reset: () => void;
+}
+
 /**
  * Interface for the hooks returned by all transport initialization functions.
  * This ensures a consistent API across all transports (WebSocket, HTTP Batch, MessagePort, etc.)
@@ -15,12 +336,12 @@ export interface CapnWebHooks<T extends RpcCompatible<T>> {
    * Hook for making simple RPC calls with React Suspense support.
    * Suspends until the promise resolves, making it work seamlessly with Suspense boundaries.
    *
-   * @param apiName - Name of the API method to call
+   * @param apiName - Name of the API method to call, or `{ method, ...options }` to override cache options
    * @param args - Arguments to pass to the API method
    * @returns The resolved value from the RPC call
    */
   useCapnWeb<K extends keyof T>(
-    apiName: K,
+    apiName: K | ({ method: K } & CapnWebQueryOptions),
     ...args: T[K] extends (...args: infer P) => any ? P : never
   ): T[K] extends (...args: any[]) => Promise<infer R> ? R : never;
 
@@ -28,17 +349,97 @@ export interface CapnWebHooks<T extends RpcCompatible<T>> {
    * Hook for complex RPC queries with React Suspense support.
    * Allows custom logic, multiple API calls, and promise pipelining.
    *
-   * @param operationName - Unique name for this operation (used for caching)
+   * @param operationName - Unique name for this operation (used for caching), or `{ name, ...options }` to override cache options
    * @param fn - Function that takes the API and returns a Promise
    * @param deps - Dependencies that affect the query
    * @returns The resolved value from the RPC call
    */
   useCapnWebQuery<R>(
-    operationName: string,
+    operationName:
+      | string
+      | ({ name: string; withRefetch?: false } & CapnWebQueryOptions),
     fn: (api: RpcStub<T>) => Promise<R>,
     ...deps: any[]
   ): R;
 
+  /**
+   * Variant of `useCapnWebQuery` also returning a `refetch` function for the
+   * query, selected by passing `withRefetch: true` with the name.
+   *
+   * @param operationName - `{ name, withRefetch: true, ...options }`
+   * @param fn - Function that takes the API and returns a Promise
+   * @param deps - Dependencies that affect the query
+   * @returns The resolved value and a function re-running the query
+   */
+  useCapnWebQuery<R>(
+    operationName: { name: string; withRefetch: true } & CapnWebQueryOptions,
+    fn: (api: RpcStub<T>) => Promise<R>,
+    ...deps: any[]
+  ): CapnWebQueryResult<R>;
+
+  /**
+   * Non-suspending variant of `useCapnWeb` for inline loading and error states.
+   * Shares its cache with `useCapnWeb`.
+   *
+   * @param apiName - Name of the API method to call, or `{ method, ...options }` to override cache options
+   * @param args - Arguments to pass to the API method
+   * @returns The current data, error and loading status of the RPC call
+   */
+  useCapnWebState<K extends keyof T>(
+    apiName: K | ({ method: K } & CapnWebQueryOptions),
+    ...args: T[K] extends (...args: infer P) => any ? P : never
+  ): CapnWebQueryState<
+    T[K] extends (...args: any[]) => Promise<infer R> ? R : never
+  >;
+
+  /**
+   * Non-suspending variant of `useCapnWebQuery` for inline loading and error states.
+   * Shares its cache with `useCapnWebQuery`.
+   *
+   * @param operationName - Unique name for this operation (used for caching), or `{ name, ...options }` to override cache options
+   * @param fn - Function that takes the API and returns a Promise
+   * @param deps - Dependencies that affect the query
+   * @returns The current data, error and loading status of the query
+   */
+  useCapnWebQueryState<R>(
+    operationName: string | ({ name: string } & CapnWebQueryOptions),
+    fn: (api: RpcStub<T>) => Promise<R>,
+    ...deps: any[]
+  ): CapnWebQueryState<R>;
+
+  /**
+   * Hook for server-pushed data. Calls `method(...args, callback)`, passing a
+   * callback the server can invoke over RPC to push events, and keeps the
+   * latest event in React state. Whatever the method returns (typically an
+   * RpcTarget representing the subscription) is disposed when the component
+   * unmounts or the arguments change. The server must `dup()` the callback
+   * stub to keep using it after the call returns. After a reconnect the
+   * method is called again on the new session.
+   *
+   * @param method - Name of the API method to subscribe with
+   * @param args - Arguments to pass before the callback
+   * @param onEvent - Optional function invoked with every pushed event
+   * @returns The latest event and the subscription status
+   */
+  useCapnWebSubscription<K extends keyof T>(
+    method: K,
+    args: CapnWebSubscriptionArgs<T[K]>,
+    onEvent?: (event: CapnWebSubscriptionEvent<T[K]>) => void,
+  ): CapnWebSubscriptionState<CapnWebSubscriptionEvent<T[K]>>;
+
+  /**
+   * Hook for RPC calls that change data, such as creates and updates.
+   * Does not suspend; tracks the pending/error state of the latest call instead.
+   *
+   * @param fn - Function that takes the API and the mutation variables and returns a Promise
+   * @param options - Cache entries to update optimistically and to invalidate on success
+   * @returns Functions to run the mutation plus its current state
+   */
+  useCapnWebMutation<R, V = void>(
+    fn: (api: RpcStub<T>, variables: V) => Promise<R>,
+    options?: CapnWebMutationOptions<R, V>,
+  ): CapnWebMutationResult<R, V>;
+
   /**
    * Get direct access to the RPC API stub.
    * Use this for more control over when and how RPC calls are made.
@@ -47,6 +448,36 @@ export interface CapnWebHooks<T extends RpcCompatible<T>> {
    */
   getCapnWebStub: () => RpcStub<T>;
 
+  /**
+   * Evict cached results so they are fetched again.
+   * Every mounted component using an evicted result re-renders and suspends
+   * until fresh data arrives.
+   *
+   * @param filter - Key prefix or predicate selecting the entries to evict, all entries if omitted
+   */
+  invalidate: (filter?: CapnWebQueryFilter) => void;
+
+  /**
+   * Re-run the RPC calls behind cached results and push the fresh data to
+   * every subscribed component, which keeps rendering loaded data meanwhile.
+   * Entries no mounted component uses are evicted instead, so they are
+   * fetched when next needed.
+   *
+   * @param filter - Key prefix or predicate selecting the entries to refetch, all entries if omitted
+   * @returns A promise that settles once every refetch has settled
+   */
+  refetch: (filter?: CapnWebQueryFilter) => Promise<void>;
+
+  /**
+   * Register an operation to replay once the transport reconnects, such as a
+   * subscription made through `getCapnWebStub()` that the old session lost.
+   * `useCapnWebSubscription` and `live` queries register themselves.
+   *
+   * @param replay - Function re-running the operation against the new session
+   * @returns A function unregistering the operation
+   */
+  registerLiveOperation: (replay: () => void) => () => void;
+
   /**
    * Manually close the connection and dispose the session.
    * After calling this, the connection will not be usable.
@@ -59,21 +490,50 @@ export interface CapnWebHooks<T extends RpcCompatible<T>> {
  * Creates hook functions that use a provided session getter.
  *
  * @param getCapnWebStub - Function that returns the RPC session/stub
- * @returns Hook functions (useCapnWeb, useCapnWebQuery, getCapnWebStub)
+ * @param options - Default cache options for the hooks
+ * @returns Hook functions (useCapnWeb, useCapnWebQuery, their non-suspending variants,
+ * useCapnWebSubscription, useCapnWebMutation, getCapnWebStub), cache
+ * controls, and a close() function that stops the cache cleanup timer
  */
 
 export function createHooks<T extends RpcCompatible<T>>(
-  getCapnWebStub: () => RpcStub<T>,
-): Omit<CapnWebHooks<T>, 'close'> {
+  getCapnWebStub: (stubOptions?: { signal?: AbortSignal }) => RpcStub<T>,
+  options: CapnWebHooksOptions = {},
+): CapnWebHooks<T> {
   type PromiseTracker = {
     status: 'pending' | 'resolved' | 'rejected';
     promise: Promise<any>;
     timestamp: number;
+    // Resolved value, read synchronously so Suspense consumers don't suspend
+    value?: any;
+    // Rejection reason, for consumers that don't suspend
+    error?: any;
+    // Background refetch of a stale value, if one is running
+    revalidating?: Promise<any>;
+    // Set once a component has mounted with this entry
+    mounted?: boolean;
+    // Key and function used to (re)run the call, absent for cached errors
+    queryKey?: CapnWebQueryKey;
+    fn?: (api: RpcStub<T>) => Promise<any>;
+    // Stub the call was made on, to tell entries of a replaced session apart
+    session?: unknown;
+    // Aborted or timed out, so it is not kept for later mounts
+    evict?: boolean;
   };
 
   const promiseCache = new Map<string, PromiseTracker>();
-  const STALE_PROMISE_MS = 60000; // Clean up settled promises after 1 minute
-  const CLEANUP_INTERVAL_MS = 10000; // Run cleanup every 10 seconds
+  // Re-render callbacks of mounted components, keyed by cache key
+  const cacheListeners = new Map<string, Set<() => void>>();
+  const {
+    gcTime = 60000, // Clean up settled promises after 1 minute
+    sweepInterval = 10000, // Run cleanup every 10 seconds
+    maxEntries = Infinity,
+  } = options.queryCache ?? {};
+  let cleanupInterval: ReturnType<typeof setInterval> | null = null;
+  // Number of mounted components using each live query, keyed by cache key
+  const liveQueries = new Map<string, number>();
+  const liveOperations = new Set<() => void>();
+  const logger = resolveLogger(options.logger);
 
   function cleanCache(cacheKey: string, deletePending: boolean = false) {
     const val = promiseCache.get(cacheKey);
@@ -85,45 +545,462 @@ export function createHooks<T extends RpcCompatible<T>>(
   function cleanStalePromises() {
     const now = Date.now();
     for (const [key, tracker] of promiseCache.entries()) {
+      // Entries in use stay cached so they never flash a Suspense fallback
       if (
         tracker.status !== 'pending' &&
-        now - tracker.timestamp > STALE_PROMISE_MS
+        !cacheListeners.has(key) &&
+        now - tracker.timestamp > gcTime
       ) {
         promiseCache.delete(key);
       }
     }
+    if (promiseCache.size === 0) {
+      stopCleanup();
+    }
+  }
+
+  function stopCleanup() {
+    if (cleanupInterval) {
+      clearInterval(cleanupInterval);
+      cleanupInterval = null;
+    }
+  }
+
+  function setCacheEntry(cacheKey: string, tracker: PromiseTracker) {
+    // Re-inserting keeps the Map ordered from least to most recently used
+    promiseCache.delete(cacheKey);
+    promiseCache.set(cacheKey, tracker);
+    // Start cleanup interval, it stops again once the cache is empty
+    if (!cleanupInterval) {
+      cleanupInterval = setInterval(cleanStalePromises, sweepInterval);
+    }
+    for (const [key, entry] of promiseCache.entries()) {
+      if (promiseCache.size <= maxEntries) {
+        break;
+      }
+      // Evicting pending or mounted entries would only re-fetch them
+      if (entry.status !== 'pending' && !cacheListeners.has(key)) {
+        promiseCache.delete(key);
+      }
+    }
+  }
+
+  function subscribe(cacheKey: string, listener: () => void) {
+    let listeners = cacheListeners.get(cacheKey);
+    if (!listeners) {
+      listeners = new Set();
+      cacheListeners.set(cacheKey, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        cacheListeners.delete(cacheKey);
+      }
+    };
+  }
+
+  function notify(cacheKey: string) {
+    cacheListeners.get(cacheKey)?.forEach((listener) => listener());
+  }
+
+  // Suspended components are woken by React itself, this re-renders the rest
+  function notifyIfCurrent(cacheKey: string, tracker: PromiseTracker) {
+    if (promiseCache.get(cacheKey) === tracker) {
+      notify(cacheKey);
+    }
+  }
+
+  // Calls fn on the stub, after the session handshake if one is in progress
+  function callWhenReady(
+    session: unknown,
+    fn: (api: any) => any,
+  ): Promise<any> {
+    const ready = options.sessionReady?.();
+    return ready
+      ? ready.then((stub) => fn(stub))
+      : Promise.resolve(fn(session));
+  }
+
+  // Rejects with the signal's reason once it aborts, even when the transport
+  // can't cancel the call itself
+  function abortable<R>(promise: Promise<R>, signal?: AbortSignal): Promise<R> {
+    if (!signal) {
+      return promise;
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      if (signal.aborted) {
+        onAbort();
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then((value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      }, (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+    });
+  }
+
+  // Marks a promise settled the way React's use() records it, so a loaded
+  // entry is read during render instead of suspending for a microtask
+  function settled<R>(promise: Promise<R>, value: R): Promise<R> {
+    return Object.assign(promise, { status: 'fulfilled', value });
+  }
+
+  function startPromise(
+    cacheKey: string,
+    queryKey: CapnWebQueryKey,
+    fn: (api: RpcStub<T>) => Promise<any>,
+    signal?: AbortSignal,
+  ): PromiseTracker {
+    const session: unknown = getCapnWebStub(signal ? { signal } : undefined);
+    const prom = abortable(callWhenReady(session, fn as any), signal);
+    const promiseStatus: PromiseTracker = {
+      status: 'pending',
+      promise: prom,
+      timestamp: Date.now(),
+      queryKey,
+      fn,
+      session,
+    };
+    prom.then((value) => {
+      settled(prom, value);
+      promiseStatus.status = 'resolved';
+      promiseStatus.value = value;
+      promiseStatus.timestamp = Date.now();
+      notifyIfCurrent(cacheKey, promiseStatus);
+    }, (error) => {
+      promiseStatus.status = 'rejected';
+      promiseStatus.error = error;
+      promiseStatus.evict = !!signal?.aborted ||
+        error?.name === 'AbortError' || error?.name === 'TimeoutError';
+      notifyIfCurrent(cacheKey, promiseStatus);
+    });
+    setCacheEntry(cacheKey, promiseStatus);
+    return promiseStatus;
+  }
+
+  function matchesFilter(
+    tracker: PromiseTracker,
+    filter?: CapnWebQueryFilter,
+  ): boolean {
+    if (!filter) {
+      return true;
+    }
+    const key = tracker.queryKey;
+    if (!key) {
+      return false;
+    }
+    if (typeof filter === 'function') {
+      return filter(key);
+    }
+    // Prefix match, so ['getUser'] selects every getUser call regardless of args
+    return filter.length <= key.length &&
+      filter.every((part, i) =>
+        JSON.stringify(part) === JSON.stringify(key[i])
+      );
+  }
+
+  function findCacheKeys(filter?: CapnWebQueryFilter): string[] {
+    const keys: string[] = [];
+    for (const [cacheKey, tracker] of promiseCache.entries()) {
+      if (matchesFilter(tracker, filter)) {
+        keys.push(cacheKey);
+      }
+    }
+    return keys;
+  }
+
+  function invalidate(filter?: CapnWebQueryFilter) {
+    const cacheKeys = findCacheKeys(filter);
+    cacheKeys.forEach((cacheKey) => promiseCache.delete(cacheKey));
+    cacheKeys.forEach(notify);
+  }
+
+  async function refetch(filter?: CapnWebQueryFilter): Promise<void> {
+    const pending: Promise<any>[] = [];
+    for (const cacheKey of findCacheKeys(filter)) {
+      const tracker = promiseCache.get(cacheKey)!;
+      // Unmounted entries are just evicted, the next mount fetches them fresh
+      if (!cacheListeners.has(cacheKey) || !tracker.fn) {
+        promiseCache.delete(cacheKey);
+        continue;
+      }
+      // Loaded data stays rendered until the fresh value replaces it
+      if (tracker.status === 'resolved') {
+        pending.push(revalidate(cacheKey));
+        continue;
+      }
+      promiseCache.delete(cacheKey);
+      try {
+        pending.push(
+          startPromise(cacheKey, tracker.queryKey!, tracker.fn).promise,
+        );
+      } catch (error) {
+        pending.push(Promise.reject(error));
+      }
+      notify(cacheKey);
+    }
+    await Promise.allSettled(pending);
+  }
+
+  function revalidate(cacheKey: string): Promise<void> {
+    const tracker = promiseCache.get(cacheKey);
+    if (!tracker?.fn) {
+      return Promise.resolve();
+    }
+    if (tracker.revalidating) {
+      return tracker.revalidating.then(() => {}, () => {});
+    }
+    let session: unknown;
+    let prom: Promise<any>;
+    try {
+      session = getCapnWebStub();
+      prom = callWhenReady(session, tracker.fn as any);
+    } catch {
+      // Keep showing the stale value, the next mount will try again
+      return Promise.resolve();
+    }
+    tracker.revalidating = prom;
+    notify(cacheKey);
+    return prom.then((value) => {
+      // Skip if the entry was invalidated or replaced meanwhile
+      if (promiseCache.get(cacheKey) !== tracker) {
+        return;
+      }
+      setCacheEntry(cacheKey, {
+        ...tracker,
+        status: 'resolved',
+        promise: settled(prom, value),
+        value,
+        timestamp: Date.now(),
+        revalidating: undefined,
+        session,
+      });
+      notify(cacheKey);
+    }, () => {
+      tracker.revalidating = undefined;
+      notifyIfCurrent(cacheKey, tracker);
+    });
+  }
+
+  // Re-runs a single entry, keeping its data visible if it has loaded
+  function refetchEntry(
+    cacheKey: string,
+    queryKey: CapnWebQueryKey,
+  ): Promise<void> {
+    return promiseCache.get(cacheKey)?.status === 'resolved'
+      ? revalidate(cacheKey)
+      : refetch((key) => JSON.stringify(key) === JSON.stringify(queryKey));
+  }
+
+  function registerLiveOperation(replay: () => void) {
+    liveOperations.add(replay);
+    return () => {
+      liveOperations.delete(replay);
+    };
+  }
+
+  // Re-runs an entry on the session that replaced the one it was made on,
+  // keeping its data visible if it has loaded
+  function rerunOnNewSession(cacheKey: string) {
+    const tracker = promiseCache.get(cacheKey);
+    if (!tracker) {
+      return;
+    }
+    if (tracker.status === 'resolved') {
+      revalidate(cacheKey);
+      return;
+    }
+    // Already re-run, or started after the reconnect
+    if (tracker.session === getCapnWebStub()) {
+      return;
+    }
+    // The old session rejected it, or never will settle it
+    promiseCache.delete(cacheKey);
+    if (cacheListeners.has(cacheKey) && tracker.fn) {
+      try {
+        startPromise(cacheKey, tracker.queryKey!, tracker.fn);
+      } catch {
+        // The component hits the error itself when it re-renders
+      }
+    }
+    notify(cacheKey);
   }
 
-  // Start cleanup interval
-  const _cleanupInterval = setInterval(cleanStalePromises, CLEANUP_INTERVAL_MS);
+  function replayLiveOperations() {
+    if (options.refetchOnReconnect) {
+      for (const [cacheKey, tracker] of [...promiseCache.entries()]) {
+        // Loaded results no mounted component shows can stay as they are
+        if (cacheListeners.has(cacheKey) || tracker.status !== 'resolved') {
+          rerunOnNewSession(cacheKey);
+        }
+      }
+    }
+    liveQueries.forEach((_count, cacheKey) => rerunOnNewSession(cacheKey));
+    liveOperations.forEach((replay) => {
+      try {
+        replay();
+      } catch (error) {
+        logger.error('Error replaying live operation:', error);
+      }
+    });
+  }
+
+  options.subscribeToReconnect?.(replayLiveOperations);
+
+  function applyOptimisticUpdate(
+    key: CapnWebQueryKey,
+    update: (current: any) => any,
+  ): (() => void) | undefined {
+    const serializedKey = JSON.stringify(key);
+    const cacheKey = findCacheKeys((entryKey) =>
+      JSON.stringify(entryKey) === serializedKey
+    ).find((cacheKey) => promiseCache.get(cacheKey)!.status === 'resolved');
+    if (!cacheKey) {
+      return undefined;
+    }
+    const previous = promiseCache.get(cacheKey)!;
+    const value = update(previous.value);
+    const optimistic: PromiseTracker = {
+      ...previous,
+      promise: settled(Promise.resolve(value), value),
+      value,
+    };
+    setCacheEntry(cacheKey, optimistic);
+    notify(cacheKey);
+
+    return () => {
+      // Leave the entry alone if it was invalidated or refetched meanwhile
+      if (promiseCache.get(cacheKey) === optimistic) {
+        setCacheEntry(cacheKey, previous);
+        notify(cacheKey);
+      }
+    };
+  }
+
+  // Subscribes the calling component to a cache entry and revalidates or
+  // releases the entry as the component mounts and unmounts. Returns a
+  // function recording the entry each render read.
+  function useCacheSubscription(
+    currCacheKey: string,
+    queryOptions: CapnWebQueryOptions,
+  ) {
+    const {
+      staleTime = Infinity,
+      revalidateOnMount = false,
+      live = false,
+    } = {
+      ...options.queryCache,
+      ...queryOptions,
+    };
+    const [, forceUpdate] = useReducer((n: number) => n + 1, 0);
+    // What the last render read, to catch changes made before subscribing
+    const rendered = useRef<{ tracker?: PromiseTracker; status?: string }>({});
+    // Options of the latest render, which may differ from the mounting one's
+    // by the time the component unmounts
+    const latest = useRef({ staleTime, revalidateOnMount });
+    useEffect(() => {
+      latest.current = { staleTime, revalidateOnMount };
+    });
+    useEffect(() => {
+      const unsubscribe = subscribe(currCacheKey, forceUpdate);
+      const tracker = promiseCache.get(currCacheKey);
+      if (
+        tracker !== rendered.current.tracker ||
+        tracker?.status !== rendered.current.status
+      ) {
+        forceUpdate();
+      }
+      // Values fetched for this very mount are fresh, only revalidate values
+      // that were already in use or kept after their components unmounted
+      if (tracker) {
+        if (
+          tracker.mounted && tracker.status === 'resolved' &&
+          (revalidateOnMount || Date.now() - tracker.timestamp > staleTime)
+        ) {
+          revalidate(currCacheKey);
+        }
+        tracker.mounted = true;
+      }
+      return () => {
+        unsubscribe();
+        // Keep the entry while other mounted components still share it, or
+        // while it can be shown stale on the next mount
+        const { staleTime, revalidateOnMount } = latest.current;
+        if (
+          !cacheListeners.has(currCacheKey) &&
+          ((staleTime === Infinity && !revalidateOnMount) ||
+            promiseCache.get(currCacheKey)?.evict)
+        ) {
+          cleanCache(currCacheKey, true);
+        }
+      };
+    }, [currCacheKey]);
+
+    // Counted separately, so turning live on or off takes effect right away
+    useEffect(() => {
+      if (!live) {
+        return;
+      }
+      liveQueries.set(currCacheKey, (liveQueries.get(currCacheKey) ?? 0) + 1);
+      return () => {
+        const count = liveQueries.get(currCacheKey)! - 1;
+        if (count > 0) {
+          liveQueries.set(currCacheKey, count);
+        } else {
+          liveQueries.delete(currCacheKey);
+        }
+      };
+    }, [currCacheKey, live]);
+
+    return (tracker: PromiseTracker) => {
+      rendered.current = { tracker, status: tracker.status };
+    };
+  }
+
+  function getOrStartPromise(
+    currCacheKey: string,
+    queryKey: CapnWebQueryKey,
+    fn: (api: RpcStub<T>) => Promise<any>,
+    signal?: AbortSignal,
+  ): PromiseTracker {
+    const cached = promiseCache.get(currCacheKey);
+    if (cached?.evict && !cacheListeners.has(currCacheKey)) {
+      // Only the render waiting for it sees the abort, later ones fetch again
+      promiseCache.delete(currCacheKey);
+      return cached;
+    }
+    if (cached) {
+      setCacheEntry(currCacheKey, cached);
+      return cached;
+    }
+    return startPromise(currCacheKey, queryKey, fn, signal);
+  }
 
   function useNamedPromise<R>(
     currCacheKey: string,
+    queryKey: CapnWebQueryKey,
     fn: (api: RpcStub<T>) => Promise<R>,
+    queryOptions: CapnWebQueryOptions,
   ): R {
+    const trackRendered = useCacheSubscription(currCacheKey, queryOptions);
+
     let prom: Promise<any> | undefined;
     try {
-      const api = getCapnWebStub() as any;
-      prom = promiseCache.get(currCacheKey)?.promise;
-      if (!prom) {
-        prom = Promise.resolve(fn(api));
-        const promiseStatus: PromiseTracker = {
-          status: 'pending',
-          promise: prom,
-          timestamp: Date.now(),
-        };
-        prom.then(() => {
-          promiseStatus.status = 'resolved';
-        });
-        prom.catch(() => {
-          promiseStatus.status = 'rejected';
-        });
-        promiseCache.set(currCacheKey, promiseStatus);
-      }
-      useEffect(() => {
-        // cleanCache(currCacheKey);
-        return () => cleanCache(currCacheKey, true);
-      }, [currCacheKey]);
+      const tracker = getOrStartPromise(
+        currCacheKey,
+        queryKey,
+        fn,
+        queryOptions.signal,
+      );
+      trackRendered(tracker);
+      // Always through use(), as React only restores its mount dispatcher
+      // there after a suspended render is replayed
+      prom = tracker.promise;
     } catch (error) {
       // Use error message as cache key to avoid JSON.stringify issues and share cache across same errors
       const errorKey = `error:${(error as Error).name || 'Error'}: ${
@@ -134,7 +1011,7 @@ export function createHooks<T extends RpcCompatible<T>>(
         prom = cachedError.promise;
       } else {
         prom = Promise.reject(error);
-        promiseCache.set(errorKey, {
+        setCacheEntry(errorKey, {
           status: 'rejected',
           promise: prom,
           timestamp: Date.now(),
@@ -144,35 +1021,316 @@ export function createHooks<T extends RpcCompatible<T>>(
     return use(prom);
   }
 
+  function useNamedState<R>(
+    currCacheKey: string,
+    queryKey: CapnWebQueryKey,
+    fn: (api: RpcStub<T>) => Promise<R>,
+    queryOptions: CapnWebQueryOptions,
+  ): CapnWebQueryState<R> {
+    const trackRendered = useCacheSubscription(currCacheKey, queryOptions);
+
+    const refetchCurrent = () => refetchEntry(currCacheKey, queryKey);
+
+    let tracker: PromiseTracker;
+    try {
+      tracker = getOrStartPromise(
+        currCacheKey,
+        queryKey,
+        fn,
+        queryOptions.signal,
+      );
+    } catch (error) {
+      return {
+        data: undefined,
+        error: error as Error,
+        status: 'error',
+        isFetching: false,
+        refetch: refetchCurrent,
+      };
+    }
+    trackRendered(tracker);
+    return {
+      data: tracker.value,
+      error: tracker.status === 'rejected' ? tracker.error : null,
+      status: tracker.status === 'resolved'
+        ? 'success'
+        : tracker.status === 'rejected'
+        ? 'error'
+        : 'pending',
+      isFetching: tracker.status === 'pending' || !!tracker.revalidating,
+      refetch: refetchCurrent,
+    };
+  }
+
+  function describeCall(
+    apiNameOrOptions: keyof T | ({ method: keyof T } & CapnWebQueryOptions),
+    args: any[],
+  ) {
+    const { method: apiName, ...queryOptions } =
+      typeof apiNameOrOptions === 'object'
+        ? apiNameOrOptions
+        : { method: apiNameOrOptions };
+    return {
+      // Create a stable cache key from apiName and args
+      cacheKey: JSON.stringify([apiName, ...args]),
+      queryKey: [apiName, ...args],
+      fn: (api: any) => api[apiName](...args),
+      queryOptions,
+    };
+  }
+
+  function describeQuery(
+    operationNameOrOptions:
+      | string
+      | ({ name: string; withRefetch?: boolean } & CapnWebQueryOptions),
+    deps: any[],
+  ) {
+    const { name: operationName, ...queryOptions } =
+      typeof operationNameOrOptions === 'object'
+        ? operationNameOrOptions
+        : { name: operationNameOrOptions };
+    // The ! makes sure we don't collide with names in useCapnWeb, which have
+    // to be properties on the api object, in the cache or in filters
+    const queryKey = ['!' + operationName, ...deps];
+    return {
+      cacheKey: JSON.stringify(queryKey),
+      queryKey,
+      queryOptions,
+    };
+  }
+
   function useCapnWeb<K extends keyof T>(
-    apiName: K,
+    apiNameOrOptions: K | ({ method: K } & CapnWebQueryOptions),
     ...args: T[K] extends (...args: infer P) => any ? P : never
   ): T[K] extends (...args: any[]) => Promise<infer R> ? R : never {
-    // Create a stable cache key from apiName and args
-    const currCacheKey = JSON.stringify([apiName, ...args]);
-    return useNamedPromise(currCacheKey, (api: any) => api[apiName](...args));
+    const { cacheKey, queryKey, fn, queryOptions } = describeCall(
+      apiNameOrOptions,
+      args,
+    );
+    return useNamedPromise<any>(cacheKey, queryKey, fn, queryOptions);
   }
 
   function useCapnWebQuery<R>(
-    operationName: string,
+    operationNameOrOptions:
+      | string
+      | ({ name: string; withRefetch?: boolean } & CapnWebQueryOptions),
     fn: (api: RpcStub<T>) => Promise<R>,
     ...deps: any[]
-  ): R {
-    // Create a stable cache key from operationName and args, the ! makes sure we don't collide with
-    // names in useCapnWeb which have to be properties on the api object
-    const currCacheKey = JSON.stringify(['!' + operationName, ...deps]);
-    const result = useNamedPromise(
-      currCacheKey,
+  ): R | CapnWebQueryResult<R> {
+    const { cacheKey, queryKey, queryOptions } = describeQuery(
+      operationNameOrOptions,
+      deps,
+    );
+    const { withRefetch, ...cacheOptions } = queryOptions;
+    const data = useNamedPromise<R>(
+      cacheKey,
+      queryKey,
       fn as any,
-    ) as R;
-    return result;
+      cacheOptions,
+    );
+    if (!withRefetch) {
+      return data;
+    }
+    return { data, refetch: () => refetchEntry(cacheKey, queryKey) };
+  }
+
+  function useCapnWebState<K extends keyof T>(
+    apiNameOrOptions: K | ({ method: K } & CapnWebQueryOptions),
+    ...args: T[K] extends (...args: infer P) => any ? P : never
+  ): CapnWebQueryState<
+    T[K] extends (...args: any[]) => Promise<infer R> ? R : never
+  > {
+    const { cacheKey, queryKey, fn, queryOptions } = describeCall(
+      apiNameOrOptions,
+      args,
+    );
+    return useNamedState<any>(cacheKey, queryKey, fn, queryOptions);
+  }
+
+  function useCapnWebQueryState<R>(
+    operationNameOrOptions: string | ({ name: string } & CapnWebQueryOptions),
+    fn: (api: RpcStub<T>) => Promise<R>,
+    ...deps: any[]
+  ): CapnWebQueryState<R> {
+    const { cacheKey, queryKey, queryOptions } = describeQuery(
+      operationNameOrOptions,
+      deps,
+    );
+    return useNamedState<R>(cacheKey, queryKey, fn as any, queryOptions);
+  }
+
+  function useCapnWebMutation<R, V = void>(
+    fn: (api: RpcStub<T>, variables: V) => Promise<R>,
+    mutationOptions: CapnWebMutationOptions<R, V> = {},
+  ): CapnWebMutationResult<R, V> {
+    const [state, setState] = useState<{
+      status: CapnWebMutationStatus;
+      data: R | undefined;
+      error: Error | null;
+    }>({ status: 'idle', data: undefined, error: null });
+    // Only the most recent mutation may update the state
+    const latestMutation = useRef(0);
+    // Keep the latest fn and options without recreating the controls
+    const latest = useRef({ fn, mutationOptions });
+    useEffect(() => {
+      latest.current = { fn, mutationOptions };
+    });
+
+    // Created once, so they are safe to list as effect dependencies
+    const [controls] = useState(() => {
+      async function mutateAsync(variables: V): Promise<R> {
+        const { fn, mutationOptions } = latest.current;
+        const mutationId = ++latestMutation.current;
+        setState({ status: 'pending', data: undefined, error: null });
+        const optimisticUpdates = ([] as CapnWebOptimisticUpdate<V>[]).concat(
+          mutationOptions.optimistic ?? [],
+        );
+        const rollbacks: ((() => void) | undefined)[] = [];
+        try {
+          for (const { key, update } of optimisticUpdates) {
+            rollbacks.push(
+              applyOptimisticUpdate(
+                key,
+                (current) => update(current, variables),
+              ),
+            );
+          }
+          const data: R = await callWhenReady(
+            getCapnWebStub(),
+            (api) => fn(api, variables),
+          );
+          const filters = typeof mutationOptions.invalidates === 'function'
+            ? mutationOptions.invalidates(data, variables)
+            : mutationOptions.invalidates;
+          filters?.forEach(invalidate);
+          if (mutationId === latestMutation.current) {
+            setState({ status: 'success', data, error: null });
+          }
+          return data;
+        } catch (error) {
+          // Only the updates applied before a failing one need rolling back
+          rollbacks.reverse().forEach((rollback) => rollback?.());
+          if (mutationId === latestMutation.current) {
+            setState({
+              status: 'error',
+              data: undefined,
+              error: error as Error,
+            });
+          }
+          throw error;
+        }
+      }
+
+      function mutate(variables: V) {
+        // Errors are surfaced through the returned state
+        mutateAsync(variables).catch(() => {});
+      }
+
+      function reset() {
+        latestMutation.current++;
+        setState({ status: 'idle', data: undefined, error: null });
+      }
+
+      return { mutate, mutateAsync, reset };
+    });
+
+    return { ...state, ...controls };
+  }
+
+  function disposeStub(stub: any) {
+    if (stub && typeof stub[Symbol.dispose] === 'function') {
+      try {
+        stub[Symbol.dispose]();
+      } catch (error) {
+        logger.error('Error disposing subscription:', error);
+      }
+    }
+  }
+
+  function useCapnWebSubscription<K extends keyof T>(
+    method: K,
+    args: CapnWebSubscriptionArgs<T[K]>,
+    onEvent?: (event: CapnWebSubscriptionEvent<T[K]>) => void,
+  ): CapnWebSubscriptionState<CapnWebSubscriptionEvent<T[K]>> {
+    const [state, setState] = useState<
+      CapnWebSubscriptionState<CapnWebSubscriptionEvent<T[K]>>
+    >({ data: undefined, error: null, status: 'subscribing' });
+    // Keep the latest onEvent without re-subscribing when it changes
+    const onEventRef = useRef(onEvent);
+    useEffect(() => {
+      onEventRef.current = onEvent;
+    });
+
+    const subscriptionKey = JSON.stringify([method, ...(args as any[])]);
+    useEffect(() => {
+      // Bumped on every (re)subscribe and on cleanup, so events and results
+      // from superseded subscriptions are ignored
+      let generation = 0;
+      let subscription: any;
+
+      function subscribeOnce() {
+        const current = ++generation;
+        disposeStub(subscription);
+        subscription = undefined;
+
+        const callback = (event: CapnWebSubscriptionEvent<T[K]>) => {
+          if (generation !== current) {
+            return;
+          }
+          setState((prev) => ({ ...prev, data: event }));
+          onEventRef.current?.(event);
+        };
+
+        Promise.resolve().then(() =>
+          callWhenReady(
+            getCapnWebStub(),
+            (api) => api[method](...(args as any[]), callback),
+          )
+        ).then((result) => {
+          if (generation !== current) {
+            disposeStub(result);
+            return;
+          }
+          subscription = result;
+          setState((prev) => ({ ...prev, status: 'active' }));
+        }, (error) => {
+          if (generation === current) {
+            setState((prev) => ({ ...prev, error, status: 'error' }));
+          }
+        });
+      }
+
+      setState({ data: undefined, error: null, status: 'subscribing' });
+      subscribeOnce();
+      // Keep showing the last event while re-subscribing after a reconnect
+      const unregister = registerLiveOperation(() => {
+        setState((prev) => ({ ...prev, error: null, status: 'subscribing' }));
+        subscribeOnce();
+      });
+
+      return () => {
+        generation++;
+        unregister();
+        disposeStub(subscription);
+      };
+    }, [subscriptionKey]);
+
+    return state;
   }
 
   return {
     useCapnWeb,
     useCapnWebQuery,
+    useCapnWebState,
+    useCapnWebQueryState,
+    useCapnWebSubscription,
+    useCapnWebMutation,
     getCapnWebStub,
-  } as Omit<CapnWebHooks<T>, 'close'>;
+    invalidate,
+    refetch,
+    registerLiveOperation,
+    close: stopCleanup,
+  } as CapnWebHooks<T>;
 }
 
 /**
@@ -180,20 +1338,27 @@ export function createHooks<T extends RpcCompatible<T>>(
  * This handles session creation, persistence across provider mount/unmount,
  * disposal, and a close() function.
  *
+ * When `options.onSession` is set, it runs against every new session returned
+ * by `getSession` and the hooks use the stub it resolves to.
+ *
  * @param getSession - Function that returns the RPC session/stub
  * @param onClose - Optional cleanup function called when close() is invoked (before session disposal)
+ * @param options - Default cache options for the hooks
  * @returns The standard CapnWebHooks interface with close() function
  */
 export function createCapnWebHooksWithLifecycle<T extends RpcCompatible<T>>(
   getSession: () => any,
   onClose?: () => void,
+  options: CapnWebHooksOptions = {},
 ): CapnWebHooks<T> {
+  const logger = resolveLogger(options.logger);
+
   function disposeSession(sess: any) {
     if (sess && typeof sess[Symbol.dispose] === 'function') {
       try {
         sess[Symbol.dispose]();
       } catch (error) {
-        console.error('Error disposing session:', error);
+        logger.error('Error disposing session:', error);
       }
     }
   }
@@ -204,17 +1369,91 @@ export function createCapnWebHooksWithLifecycle<T extends RpcCompatible<T>>(
       try {
         onClose();
       } catch (error) {
-        console.error('Error during transport cleanup:', error);
+        logger.error('Error during transport cleanup:', error);
       }
     }
 
     // Dispose the session (but keep the reference so getCapnWebStub doesn't return null)
-    // The disposed session will handle errors naturally when methods are called
+    // The disposed session will handle errors naturally when methods are called.
+    // This is the raw session, so closing never starts an onSession handshake.
     disposeSession(getSession());
+
+    // Stop the cache cleanup timer
+    hooks.close();
+  }
+
+  type Handshake = {
+    session: any;
+    ready: Promise<any>;
+    // Set once the handshake has resolved
+    stub?: any;
+    // Handed out by getCapnWebStub() until then
+    pending: any;
+  };
+  let handshake: Handshake | null = null;
+
+  function startHandshake(session: any): Handshake {
+    const ready = Promise.resolve().then(() => options.onSession!(session));
+    const current: Handshake = {
+      session,
+      ready,
+      // Calls made meanwhile wait for the handshake, so they can't be pipelined
+      pending: new Proxy({}, {
+        get(_target, prop) {
+          if (typeof prop !== 'string' || prop === 'then') {
+            return undefined;
+          }
+          return (...args: any[]) => ready.then((stub) => stub[prop](...args));
+        },
+      }),
+    };
+    // Failures reach the callers through `ready`. A failed handshake is
+    // forgotten, so the next call retries it instead of failing for as long as
+    // the session lives.
+    ready.then((stub) => {
+      current.stub = stub;
+    }, () => {
+      if (handshake === current) {
+        handshake = null;
+      }
+    });
+    handshake = current;
+    return current;
+  }
+
+  function currentHandshake(): Handshake {
+    const session = getSession();
+    return handshake && handshake.session === session
+      ? handshake
+      : startHandshake(session);
+  }
+
+  function getStub() {
+    if (!options.onSession) {
+      return getSession();
+    }
+    const current = currentHandshake();
+    return current.stub ?? current.pending;
+  }
+
+  function sessionReady() {
+    if (!options.onSession) {
+      return undefined;
+    }
+    const current = currentHandshake();
+    return current.stub ? undefined : current.ready;
+  }
+
+  // Start the handshake as soon as a replacement session connects
+  if (options.onSession) {
+    options.subscribeToReconnect?.(() => {
+      currentHandshake();
+    });
   }
 
   const hooks = createHooks<T>(
-    getSession,
+    getStub,
+    { ...options, sessionReady },
   );
 
   return {
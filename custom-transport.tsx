@@ -1,7 +1,11 @@
 import type { RpcCompatible, RpcSessionOptions, RpcTransport } from 'capnweb';
 import { RpcSession } from 'capnweb';
-import { createCapnWebHooksWithLifecycle } from './core.tsx';
-import type { CapnWebHooks } from './core.tsx';
+import { createCapnWebHooksWithLifecycle, resolveLogger } from './core.tsx';
+import type {
+  CapnWebCacheOptions,
+  CapnWebHooks,
+  CapnWebLogger,
+} from './core.tsx';
 
 /**
  * Options for configuring a custom transport RPC session.
@@ -19,7 +23,26 @@ export interface CustomTransportOptions {
   sessionOptions?: RpcSessionOptions;
 
   /**
-   * Error handler called when the transport fails.
+   * Default cache options for the hooks, such as `staleTime`.
+   */
+  queryCache?: CapnWebCacheOptions;
+
+  /**
+   * Receives log output, `console` by default. Pass `false` to silence it.
+   */
+  logger?: CapnWebLogger | false;
+
+  /**
+   * Handshake run against the raw stub once the session is created, such as
+   * an `authenticate(token)` call returning the real API stub. The hooks and
+   * `getCapnWebStub()` use the stub it resolves to, and suspend until it has.
+   */
+  onSession?: (stub: any) => any;
+
+  /**
+   * Error handler called when creating the session throws, or when the
+   * session breaks later because the transport failed. Not called for
+   * `close()`.
    */
   onError?: (error: Error) => void;
 }
@@ -98,11 +121,18 @@ export function initCapnCustomTransport<T extends RpcCompatible<T>>(
   transport: RpcTransport | (() => RpcTransport),
   options: CustomTransportOptions = {},
 ): CapnWebHooks<T> {
+  const logger = resolveLogger(options.logger);
+
   // Keep references for cleanup
   let currentTransport: RpcTransport | null = null;
   let rpcSession: any = null;
+  // Remote main stub of the session, created when first needed
+  let remoteMain: any = null;
 
   const sessionFactory = () => {
+    if (remoteMain) {
+      return remoteMain;
+    }
     try {
       // Get the transport (call factory if needed)
       const actualTransport = typeof transport === 'function'
@@ -119,8 +149,18 @@ export function initCapnCustomTransport<T extends RpcCompatible<T>>(
       ) as any;
 
       // Get the remote main stub
-      const stub = rpcSession.getRemoteMain();
-      return stub;
+      remoteMain = rpcSession.getRemoteMain();
+      if (options.onError) {
+        const onError = options.onError;
+        const session = rpcSession;
+        // close() clears rpcSession first, so its teardown isn't reported
+        remoteMain.onRpcBroken((error: unknown) => {
+          if (rpcSession === session) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+          }
+        });
+      }
+      return remoteMain;
     } catch (error) {
       if (options.onError) {
         options.onError(error as Error);
@@ -130,30 +170,36 @@ export function initCapnCustomTransport<T extends RpcCompatible<T>>(
   };
 
   const onClose = () => {
+    const closingTransport = currentTransport;
+    const closingSession = rpcSession;
+    currentTransport = null;
+    rpcSession = null;
+
     // Abort the transport if it supports it
-    if (currentTransport && typeof currentTransport.abort === 'function') {
+    if (closingTransport && typeof closingTransport.abort === 'function') {
       try {
-        currentTransport.abort('Connection closed by client');
+        closingTransport.abort('Connection closed by client');
       } catch (error) {
-        console.error('Error aborting custom transport:', error);
+        logger.error('Error aborting custom transport:', error);
       }
     }
 
     // Dispose the RPC session
-    if (rpcSession) {
+    if (closingSession) {
       try {
-        const disposable = rpcSession as any;
+        const disposable = closingSession as any;
         if (typeof disposable[Symbol.dispose] === 'function') {
           disposable[Symbol.dispose]();
         }
       } catch (error) {
-        console.error('Error disposing RPC session:', error);
+        logger.error('Error disposing RPC session:', error);
       }
     }
-
-    currentTransport = null;
-    rpcSession = null;
   };
 
-  return createCapnWebHooksWithLifecycle<T>(sessionFactory, onClose);
+  return createCapnWebHooksWithLifecycle<T>(sessionFactory, onClose, {
+    queryCache: options.queryCache,
+    onSession: options.onSession,
+    logger,
+  });
 }
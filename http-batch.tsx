@@ -1,15 +1,154 @@
-import type { RpcCompatible, RpcSessionOptions, RpcStub } from 'capnweb';
-import { newHttpBatchRpcSession } from 'capnweb';
-import type { CapnWebHooks } from './core.tsx';
-import { createHooks } from './core.tsx';
+import type {
+  RpcCompatible,
+  RpcSessionOptions,
+  RpcStub,
+  RpcTransport,
+} from 'capnweb';
+import { RpcSession } from 'capnweb';
+import type {
+  CapnWebCacheOptions,
+  CapnWebHooks,
+  CapnWebLogger,
+} from './core.tsx';
+import { createHooks, resolveLogger } from './core.tsx';
+
+/**
+ * Which part of an HTTP batch failed: `'network'` when fetch itself threw,
+ * `'timeout'` when the request took longer than its timeout, `'http'` for a
+ * non-2xx response and `'rpc'` when the server rejected calls in the batch.
+ */
+export type HttpBatchErrorKind = 'network' | 'timeout' | 'http' | 'rpc';
+
+/**
+ * Error passed to `HttpBatchOptions.onError` describing a failed batch.
+ */
+export class HttpBatchError extends Error {
+  /**
+   * Which part of the batch failed.
+   */
+  readonly kind: HttpBatchErrorKind;
+
+  /**
+   * HTTP status of the response, undefined for network errors and timeouts.
+   */
+  readonly status?: number;
+
+  /**
+   * URL the batch was sent to.
+   */
+  readonly url: string;
+
+  /**
+   * Methods called in the batch, or only the rejected ones for `'rpc'`
+   * errors. Calls on a returned stub are named by their own method. Empty when
+   * the methods can't be read from the batch, for example for `map()` calls.
+   */
+  readonly methods: string[];
+
+  constructor(
+    kind: HttpBatchErrorKind,
+    message: string,
+    details: {
+      url: string;
+      methods: string[];
+      status?: number;
+      cause?: unknown;
+    },
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'HttpBatchError';
+    this.kind = kind;
+    this.status = details.status;
+    this.url = details.url;
+    this.methods = details.methods;
+  }
+}
+
+/**
+ * Request headers, or a function returning them that is called before every
+ * batch, for example to include a fresh auth token.
+ */
+export type HttpBatchHeaders =
+  | Record<string, string>
+  | (() => Record<string, string> | Promise<Record<string, string>>);
+
+/**
+ * Options for the batch started by one `getCapnWebStub()` call.
+ */
+export interface HttpBatchCallOptions {
+  /**
+   * Cancels the batch's request. Its calls reject with the signal's reason,
+   * an `AbortError` unless given another, and `onError` is not called.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Overrides the `timeout` option for this batch.
+   */
+  timeout?: number;
+}
+
+/**
+ * Extended hooks interface whose `getCapnWebStub()` takes options for the
+ * batch it starts.
+ */
+export interface HttpBatchCapnWebHooks<T extends RpcCompatible<T>>
+  extends CapnWebHooks<T> {
+  /**
+   * Get a stub for a new batch, with an optional signal or timeout for its
+   * request. Calls given either get a batch of their own, even when
+   * `batchWindow` is set.
+   */
+  getCapnWebStub: (options?: HttpBatchCallOptions) => RpcStub<T>;
+}
+
+/**
+ * Options for sending failed batches again.
+ */
+export interface HttpBatchRetryOptions {
+  /**
+   * Maximum number of times a batch is sent, including the first attempt.
+   * @default 3
+   */
+  attempts?: number;
+
+  /**
+   * Function to calculate the delay before a batch is sent again.
+   * Receives the number of failed attempts so far (1-indexed) and returns
+   * the delay in milliseconds.
+   *
+   * @default Exponential backoff with jitter: min(1000 * 2^(retryCount-1), 10000) + random(0-1000)
+   */
+  backoffStrategy?: (retryCount: number) => number;
+
+  /**
+   * Decides whether a failed batch is sent again. Calls may have run on the
+   * server even though the batch failed, so only batches whose calls are
+   * idempotent should be replayed; `error.methods` lists the calls in it.
+   *
+   * @default Retries network errors, timeouts and 408, 429, 502, 503 and 504 responses
+   *
+   * @example
+   * ```typescript
+   * // Never replay batches that include writes
+   * shouldRetry: (error) =>
+   *   error.kind === 'network' ||
+   *   (error.status === 503 && error.methods.length > 0 &&
+   *     !error.methods.some((method) => method.startsWith('update')))
+   * ```
+   */
+  shouldRetry?: (error: HttpBatchError) => boolean;
+}
+
 /**
  * Options for configuring HTTP Batch RPC behavior.
  */
 export interface HttpBatchOptions {
   /**
-   * Custom headers to include with each request.
+   * Custom headers to include with each request, or a function returning them
+   * that is called before every batch.
    */
-  headers?: Record<string, string>;
+  headers?: HttpBatchHeaders;
 
   /**
    * Credentials mode for fetch requests.
@@ -46,9 +185,296 @@ export interface HttpBatchOptions {
   sessionOptions?: RpcSessionOptions;
 
   /**
-   * Error handler called when an HTTP request fails.
+   * Default cache options for the hooks, such as `staleTime`.
+   */
+  queryCache?: CapnWebCacheOptions;
+
+  /**
+   * Receives log output, `console` by default. Pass `false` to silence it.
+   */
+  logger?: CapnWebLogger | false;
+
+  /**
+   * Called when a batch fails to send, gets a non-2xx response or has calls
+   * rejected by the server. The affected calls still reject as usual.
+   */
+  onError?: (error: HttpBatchError) => void;
+
+  /**
+   * Lets calls made close together share one batch session and HTTP request,
+   * such as those made by every component rendering in one pass.
+   * `'microtask'` groups the calls made before the current task yields, a
+   * number of milliseconds keeps the batch open that long after its first
+   * call. By default every `getCapnWebStub()` call starts its own batch.
+   */
+  batchWindow?: 'microtask' | number;
+
+  /**
+   * Send batches that fail with a network error or a transient HTTP status
+   * again, after a backoff delay. Only enable it, or narrow it down with
+   * `shouldRetry`, where replaying the calls is safe. `onError` is only
+   * called once the last attempt has failed, and calls the server rejected
+   * are never retried.
+   * @default false
+   */
+  retry?: boolean | HttpBatchRetryOptions;
+
+  /**
+   * Sends every batch request in place of the global `fetch`, such as an
+   * instrumented fetch adding tracing, a service binding's fetch in an edge
+   * runtime, or an in-process handler in tests. It receives the Request
+   * with the batch's headers, body and abort signal, and is called without a
+   * `this`, so bind methods like `env.API.fetch.bind(env.API)`. Timeouts and
+   * aborts reject the calls even if it ignores the signal.
+   * @default globalThis.fetch
+   */
+  fetch?: (request: Request) => Promise<Response>;
+
+  /**
+   * Milliseconds each HTTP request may take, including reading the response,
+   * before it is cancelled. The calls in a timed-out batch reject with a
+   * `TimeoutError` and `onError` receives an `HttpBatchError` of kind
+   * `'timeout'`. No timeout by default.
+   */
+  timeout?: number;
+
+  /**
+   * Called when a batch gets a 401 response, for example to refresh the auth
+   * token. The batch is then sent once more, with `headers` evaluated again,
+   * unless this resolves to `false`. Throwing fails the batch with the 401.
    */
-  onError?: (error: Error) => void;
+  onUnauthorized?: (error: HttpBatchError) => unknown;
+}
+
+/**
+ * Transport for a single HTTP batch, like capnweb's own batch client: the
+ * messages sent within `delay` milliseconds, or before the next task, are
+ * POSTed together and the response lines are handed back to the session.
+ */
+class HttpBatchTransport implements RpcTransport {
+  #batchToSend: string[] | null = [];
+  #batchToReceive: string[] | null = null;
+  #aborted: unknown;
+  #promise: Promise<void>;
+
+  constructor(
+    sendBatch: (batch: string[]) => Promise<string[]>,
+    delay: number,
+  ) {
+    this.#promise = this.#scheduleBatch(sendBatch, delay);
+  }
+
+  send(message: string): Promise<void> {
+    this.#batchToSend?.push(message);
+    return Promise.resolve();
+  }
+
+  async receive(): Promise<string> {
+    if (!this.#batchToReceive) {
+      await this.#promise;
+    }
+    const message = this.#batchToReceive!.shift();
+    if (message === undefined) {
+      throw new Error('Batch RPC request ended.');
+    }
+    return message;
+  }
+
+  abort(reason: unknown): void {
+    this.#aborted = reason;
+  }
+
+  async #scheduleBatch(
+    sendBatch: (batch: string[]) => Promise<string[]>,
+    delay: number,
+  ): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (this.#aborted !== undefined) {
+      throw this.#aborted;
+    }
+    const batch = this.#batchToSend!;
+    this.#batchToSend = null;
+    this.#batchToReceive = await sendBatch(batch);
+  }
+}
+
+/**
+ * Default retry backoff: exponential with jitter.
+ */
+function defaultRetryBackoffStrategy(retryCount: number): number {
+  const baseDelay = Math.min(1000 * Math.pow(2, retryCount - 1), 10000);
+  const jitter = Math.random() * 1000;
+  return baseDelay + jitter;
+}
+
+// Statuses that usually mean a proxy or an overloaded server failed briefly
+const retryableStatuses = new Set([408, 429, 502, 503, 504]);
+
+function defaultShouldRetry(error: HttpBatchError): boolean {
+  return error.kind === 'network' || error.kind === 'timeout' ||
+    (error.kind === 'http' && retryableStatuses.has(error.status!));
+}
+
+// Resolves after delay milliseconds, or rejects once the signal aborts
+function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    // The signal may outlive many retries, so don't leave listeners behind
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Rejects with the signal's reason once it aborts, even when a custom fetch
+// ignores the request's signal
+function abortable<R>(promise: Promise<R>, signal: AbortSignal): Promise<R> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then((value) => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(value);
+    }, (error) => {
+      signal.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+  });
+}
+
+// ----------------------------------------------------------------------------
+// capnweb wire format
+//
+// capnweb doesn't tell a transport which calls a batch holds, so the methods
+// of an HttpBatchError are read from the serialized messages. This follows the
+// messages of capnweb 0.4.0 and needs checking whenever capnweb is upgraded:
+//
+//   ["push", ["pipeline", importId, path, args?]]   a call, numbered from 1
+//   ["reject", importId, ["error", name, message, stack?]]
+//   ["abort", ["error", name, message, stack?]]
+//
+// Other pushes, such as the "remap" pushes of map(), and rejections of unknown
+// calls leave the methods empty rather than guessing them.
+// ----------------------------------------------------------------------------
+
+function parseWireMessage(message: string): unknown[] | null {
+  try {
+    const parsed = JSON.parse(message);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Method names of the calls pushed in a batch, indexed by their import id, or
+ * null when a push doesn't have the expected shape.
+ */
+function readBatchCalls(batch: string[]): Map<number, string> | null {
+  const calls = new Map<number, string>();
+  for (const message of batch) {
+    const parsed = parseWireMessage(message);
+    if (parsed?.[0] !== 'push') {
+      continue;
+    }
+    const expression = parsed[1];
+    const path = Array.isArray(expression) && expression[0] === 'pipeline'
+      ? expression[2]
+      : undefined;
+    if (
+      !Array.isArray(path) || path.length === 0 ||
+      !path.every((key) => typeof key === 'string' || typeof key === 'number')
+    ) {
+      return null;
+    }
+    calls.set(calls.size + 1, path.join('.'));
+  }
+  return calls;
+}
+
+type BatchFailure =
+  | { type: 'invalid'; response: string }
+  | { type: 'abort'; error: string }
+  | { type: 'reject'; importId: unknown; error: string };
+
+// Rejections, aborts and messages that aren't capnweb's in a batch response
+function readBatchFailures(responses: string[]): BatchFailure[] {
+  const failures: BatchFailure[] = [];
+  for (const response of responses) {
+    const parsed = parseWireMessage(response);
+    if (!parsed) {
+      failures.push({ type: 'invalid', response });
+    } else if (parsed[0] === 'reject') {
+      failures.push({
+        type: 'reject',
+        importId: parsed[1],
+        error: errorMessage(parsed[2]),
+      });
+    } else if (parsed[0] === 'abort') {
+      failures.push({ type: 'abort', error: errorMessage(parsed[1]) });
+    }
+  }
+  return failures;
+}
+
+function errorMessage(serialized: unknown): string {
+  return Array.isArray(serialized) && serialized[0] === 'error'
+    ? `${serialized[1]}: ${serialized[2]}`
+    : JSON.stringify(serialized);
+}
+
+// ----------------------------------------------------------------------------
+
+/**
+ * Describes the rejections and aborts in a batch response, or a response
+ * that isn't capnweb's at all, returning null when every call succeeded.
+ */
+function batchRejections(
+  calls: Map<number, string> | null,
+  responses: string[],
+): { methods: string[]; message: string } | null {
+  const methods: (string | undefined)[] = [];
+  const reasons: string[] = [];
+  for (const failure of readBatchFailures(responses)) {
+    if (failure.type === 'invalid') {
+      return {
+        methods: calls ? [...calls.values()] : [],
+        message: `Invalid RPC batch response: ${
+          failure.response.slice(0, 100)
+        }`,
+      };
+    } else if (failure.type === 'abort') {
+      return {
+        methods: calls ? [...calls.values()] : [],
+        message: `RPC batch aborted: ${failure.error}`,
+      };
+    }
+    const method = calls?.get(failure.importId as number);
+    methods.push(method);
+    reasons.push(method ? `${method}: ${failure.error}` : failure.error);
+  }
+  if (methods.length === 0) {
+    return null;
+  }
+  return {
+    // All or nothing, a partial list would pass for the complete one
+    methods: methods.every((method) => method !== undefined)
+      ? methods as string[]
+      : [],
+    message: `RPC calls rejected: ${reasons.join('; ')}`,
+  };
 }
 
 // RpcStub from capnweb supports promise pipelining where RpcPromise values can be passed as parameters
@@ -150,36 +576,252 @@ export interface HttpBatchOptions {
 export function initCapnHttpBatch<T extends RpcCompatible<T>>(
   url: string,
   options: HttpBatchOptions = {},
-): CapnWebHooks<T> {
-  // Build a Request object with all the options
-  const request = new Request(url, {
-    method: 'POST',
-    headers: options.headers,
-    credentials: options.credentials ?? 'same-origin',
-    mode: options.mode ?? 'cors',
-    cache: options.cache ?? 'no-cache',
-    redirect: options.redirect ?? 'follow',
-    referrerPolicy: options.referrerPolicy,
-  });
+): HttpBatchCapnWebHooks<T> {
+  const logger = resolveLogger(options.logger);
+  // Without retry, every batch gets a single attempt
+  const {
+    attempts = 3,
+    backoffStrategy = defaultRetryBackoffStrategy,
+    shouldRetry = defaultShouldRetry,
+  }: HttpBatchRetryOptions = options.retry === true
+    ? {}
+    : options.retry || { attempts: 1 };
 
-  // Custom getCapnWebStub that creates a new HTTP batch session each time
-  function getCapnWebStub(): RpcStub<T> {
-    const session = newHttpBatchRpcSession<T>(
-      request.clone(),
+  // Builds the Request for one attempt at a batch, evaluating the headers
+  // afresh and starting its timeout
+  async function createRequest(
+    body: string,
+    call: HttpBatchCallOptions,
+  ): Promise<Request> {
+    const signals = [
+      call.signal,
+      call.timeout === undefined
+        ? undefined
+        : AbortSignal.timeout(call.timeout),
+    ].filter((signal) => signal !== undefined);
+    return new Request(url, {
+      method: 'POST',
+      headers: typeof options.headers === 'function'
+        ? await options.headers()
+        : options.headers,
+      body,
+      signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+      credentials: options.credentials ?? 'same-origin',
+      mode: options.mode ?? 'cors',
+      cache: options.cache ?? 'no-cache',
+      redirect: options.redirect ?? 'follow',
+      referrerPolicy: options.referrerPolicy,
+    });
+  }
+
+  // Classifies what fetch, or reading the response, threw
+  function requestError(
+    request: Request,
+    methods: string[],
+    call: HttpBatchCallOptions,
+    cause: unknown,
+  ): unknown {
+    if (call.signal?.aborted) {
+      // Cancelled by the caller, so neither retried nor reported
+      return call.signal.reason;
+    }
+    if (cause instanceof Error && cause.name === 'TimeoutError') {
+      return new HttpBatchError(
+        'timeout',
+        `RPC request timed out after ${call.timeout}ms`,
+        { url: request.url, methods, cause },
+      );
+    }
+    return new HttpBatchError(
+      'network',
+      `RPC request failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { url: request.url, methods, cause },
+    );
+  }
+
+  function httpError(
+    request: Request,
+    response: Response,
+    methods: string[],
+    cause?: unknown,
+  ): HttpBatchError {
+    return new HttpBatchError(
+      'http',
+      `RPC request failed: ${response.status} ${response.statusText}`,
+      { url: request.url, methods, status: response.status, cause },
+    );
+  }
+
+  async function post(
+    request: Request,
+    methods: string[],
+    call: HttpBatchCallOptions,
+  ): Promise<Response> {
+    // Looked up per request, so a fetch stubbed after init is still used
+    const fetchBatch = options.fetch ?? fetch;
+    try {
+      return await abortable(fetchBatch(request), request.signal);
+    } catch (error) {
+      throw requestError(request, methods, call, error);
+    }
+  }
+
+  function reportError(error: HttpBatchError): HttpBatchError {
+    try {
+      options.onError?.(error);
+    } catch (handlerError) {
+      logger.error('Error in onError handler:', handlerError);
+    }
+    return error;
+  }
+
+  // POSTs one batch, sending it once more after onUnauthorized
+  async function postBatch(
+    body: string,
+    methods: string[],
+    call: HttpBatchCallOptions,
+  ): Promise<{ request: Request; response: Response; text: string }> {
+    let request = await createRequest(body, call);
+    let response = await post(request, methods, call);
+    if (response.status === 401 && options.onUnauthorized) {
+      response.body?.cancel();
+      const unauthorized = httpError(request, response, methods);
+      let retry: unknown;
+      try {
+        retry = await options.onUnauthorized(unauthorized);
+      } catch (error) {
+        throw httpError(request, response, methods, error);
+      }
+      if (retry === false) {
+        throw unauthorized;
+      }
+      // Nothing in the batch ran, so it is safe to send again, once
+      request = await createRequest(body, call);
+      response = await post(request, methods, call);
+    }
+    if (!response.ok) {
+      response.body?.cancel();
+      throw httpError(request, response, methods);
+    }
+    try {
+      return {
+        request,
+        response,
+        text: await abortable(response.text(), request.signal),
+      };
+    } catch (error) {
+      throw requestError(request, methods, call, error);
+    }
+  }
+
+  // Sends one batch, retrying it as configured and reporting whatever goes
+  // wrong to onError
+  async function sendBatch(
+    batch: string[],
+    call: HttpBatchCallOptions,
+  ): Promise<string[]> {
+    const calls = readBatchCalls(batch);
+    const methods = calls ? [...calls.values()] : [];
+    const body = batch.join('\n');
+    let result: Awaited<ReturnType<typeof postBatch>>;
+    for (let attempt = 1;; attempt++) {
+      try {
+        result = await postBatch(body, methods, call);
+        break;
+      } catch (error) {
+        if (!(error instanceof HttpBatchError)) {
+          throw error;
+        }
+        if (attempt >= attempts || !shouldRetry(error)) {
+          reportError(error);
+          // Calls reject with the TimeoutError itself, like fetch would
+          throw error.kind === 'timeout' ? error.cause : error;
+        }
+        const delay = backoffStrategy(attempt);
+        logger.info(
+          `${error.message}. Retrying HTTP batch in ${
+            Math.round(delay)
+          }ms (attempt ${attempt + 1}/${attempts})`,
+        );
+        await wait(delay, call.signal);
+      }
+    }
+
+    const { request, response, text } = result;
+    const responses = text === '' ? [] : text.split('\n');
+    const rejections = batchRejections(calls, responses);
+    if (rejections) {
+      reportError(
+        new HttpBatchError('rpc', rejections.message, {
+          url: request.url,
+          methods: rejections.methods,
+          status: response.status,
+        }),
+      );
+    }
+    return responses;
+  }
+
+  function createSession(
+    send: (batch: string[]) => Promise<string[]>,
+    delay: number,
+  ): RpcStub<T> {
+    const session = new RpcSession<T>(
+      new HttpBatchTransport(send, delay),
+      undefined,
       options.sessionOptions,
-    ) as any;
-    return session as RpcStub<T>;
+    );
+    return session.getRemoteMain() as RpcStub<T>;
   }
 
-  // Use the core hooks with our custom stub implementation
-  const hooks = createHooks<T>(getCapnWebStub);
+  // Session shared by the calls made during the current batching window
+  let windowStub: any = null;
 
-  function close() {
-    // No-op for HTTP Batch - no persistent connection to close
+  // Custom getCapnWebStub that creates a new HTTP batch session each time,
+  // or once per batching window
+  function getCapnWebStub(callOptions: HttpBatchCallOptions = {}): RpcStub<T> {
+    const call = {
+      signal: callOptions.signal,
+      timeout: callOptions.timeout ?? options.timeout,
+    };
+    const batchWindow = options.batchWindow;
+    if (
+      batchWindow === undefined || callOptions.signal ||
+      callOptions.timeout !== undefined
+    ) {
+      return createSession((batch) => sendBatch(batch, call), 0);
+    }
+    if (windowStub) {
+      return windowStub;
+    }
+    const stub: any = createSession(
+      (batch) => {
+        // The batch is on its way, so later calls need a new session
+        closeWindow();
+        return sendBatch(batch, call);
+      },
+      batchWindow === 'microtask' ? 0 : batchWindow,
+    );
+    const closeWindow = () => {
+      if (windowStub === stub) {
+        windowStub = null;
+      }
+    };
+    if (batchWindow === 'microtask') {
+      queueMicrotask(closeWindow);
+    }
+    windowStub = stub;
+    return stub;
   }
 
-  return {
-    ...hooks,
-    close,
-  };
+  // Use the core hooks with our custom stub implementation.
+  // There is no persistent connection to close, so close() only stops the
+  // cache cleanup timer.
+  const hooks = createHooks<T>(getCapnWebStub, {
+    queryCache: options.queryCache,
+    logger,
+  });
+  return { ...hooks, getCapnWebStub };
 }
@@ -1,7 +1,11 @@
 import type { RpcCompatible, RpcSessionOptions } from 'capnweb';
 import { newMessagePortRpcSession } from 'capnweb';
-import { createCapnWebHooksWithLifecycle } from './core.tsx';
-import type { CapnWebHooks } from './core.tsx';
+import { createCapnWebHooksWithLifecycle, resolveLogger } from './core.tsx';
+import type {
+  CapnWebCacheOptions,
+  CapnWebHooks,
+  CapnWebLogger,
+} from './core.tsx';
 
 /**
  * Options for configuring MessagePort RPC behavior.
@@ -18,6 +22,23 @@ export interface MessagePortOptions {
    */
   sessionOptions?: RpcSessionOptions;
 
+  /**
+   * Default cache options for the hooks, such as `staleTime`.
+   */
+  queryCache?: CapnWebCacheOptions;
+
+  /**
+   * Receives log output, `console` by default. Pass `false` to silence it.
+   */
+  logger?: CapnWebLogger | false;
+
+  /**
+   * Handshake run against the raw stub once the session is created, such as
+   * an `authenticate(token)` call returning the real API stub. The hooks and
+   * `getCapnWebStub()` use the stub it resolves to, and suspend until it has.
+   */
+  onSession?: (stub: any) => any;
+
   /**
    * Callback invoked when the MessagePort is disconnected.
    * Note: The 'close' event has limited browser support. Test in your target environments.
@@ -96,6 +117,8 @@ export function initCapnMessagePort<T extends RpcCompatible<T>>(
   port: MessagePort,
   options: MessagePortOptions = {},
 ): CapnWebHooks<T> {
+  const logger = resolveLogger(options.logger);
+
   // Set up disconnect handler if provided
   // Note: 'close' event has limited browser support - see documentation
   if (options.onDisconnect) {
@@ -115,9 +138,13 @@ export function initCapnMessagePort<T extends RpcCompatible<T>>(
     try {
       port.close();
     } catch (error) {
-      console.error('Error closing MessagePort:', error);
+      logger.error('Error closing MessagePort:', error);
     }
   };
 
-  return createCapnWebHooksWithLifecycle<T>(sessionFactory, onClose);
+  return createCapnWebHooksWithLifecycle<T>(sessionFactory, onClose, {
+    queryCache: options.queryCache,
+    onSession: options.onSession,
+    logger,
+  });
 }
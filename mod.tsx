@@ -12,7 +12,23 @@
  */
 
 // Re-export core types
-export type { CapnWebHooks } from './core.tsx';
+export type {
+  CapnWebCacheOptions,
+  CapnWebHooks,
+  CapnWebLogger,
+  CapnWebMutationOptions,
+  CapnWebMutationResult,
+  CapnWebMutationStatus,
+  CapnWebOptimisticUpdate,
+  CapnWebQueryFilter,
+  CapnWebQueryKey,
+  CapnWebQueryOptions,
+  CapnWebQueryResult,
+  CapnWebQueryState,
+  CapnWebSubscriptionArgs,
+  CapnWebSubscriptionEvent,
+  CapnWebSubscriptionState,
+} from './core.tsx';
 // Note: RpcStub is available from 'capnweb' package for promise pipelining support
 
 // Re-export WebSocket transport
@@ -20,11 +36,26 @@ export {
   initCapnWebSocket,
   type WebSocketCapnWebHooks,
   type WebSocketConnectionState,
+  type WebSocketHeartbeatOptions,
   type WebSocketOptions,
+  WebSocketQueueError,
+  type WebSocketQueueErrorCode,
+  type WebSocketQueueOptions,
+  type WebSocketTabSharingOptions,
+  type WebSocketUrl,
 } from './websocket.tsx';
 
 // Re-export HTTP Batch transport
-export { type HttpBatchOptions, initCapnHttpBatch } from './http-batch.tsx';
+export {
+  type HttpBatchCallOptions,
+  type HttpBatchCapnWebHooks,
+  HttpBatchError,
+  type HttpBatchErrorKind,
+  type HttpBatchHeaders,
+  type HttpBatchOptions,
+  type HttpBatchRetryOptions,
+  initCapnHttpBatch,
+} from './http-batch.tsx';
 
 // Re-export MessagePort transport
 export {
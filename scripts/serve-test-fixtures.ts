@@ -13,9 +13,41 @@ import {
   newWebSocketRpcSession,
   RpcTarget,
 } from 'capnweb';
+import type { RpcStub } from 'capnweb';
+
+// Counts API instances, one per WebSocket connection or HTTP batch
+let connectionCount = 0;
 
 // Mock API implementation for testing
 class TestApiImpl extends RpcTarget {
+  #socket?: WebSocket;
+  #token: string | null;
+  #responding = true;
+  #connectionId = ++connectionCount;
+
+  constructor(socket?: WebSocket, token: string | null = null) {
+    super();
+    this.#socket = socket;
+    this.#token = token;
+  }
+
+  // Token passed in the WebSocket URL's query string, if any
+  getToken(): string | null {
+    return this.#token;
+  }
+
+  // Tells clients sharing a connection apart from ones with their own
+  getConnectionId(): number {
+    return this.#connectionId;
+  }
+
+  authenticate(token: string): AuthenticatedApi {
+    if (!token) {
+      throw new Error('Missing token');
+    }
+    return new AuthenticatedApi(token, this.#socket);
+  }
+
   echo(message: string): string {
     return message;
   }
@@ -34,6 +66,83 @@ class TestApiImpl extends RpcTarget {
       name: `User ${userId}`,
     };
   }
+
+  // Pushes an incrementing counter to the client until the returned
+  // subscription is disposed
+  watchCounter(
+    intervalMs: number,
+    onTick: RpcStub<(count: number) => void>,
+  ): CounterSubscription {
+    return new CounterSubscription(intervalMs, onTick.dup());
+  }
+
+  // Heartbeat target, which stops answering after stopResponding()
+  ping(): Promise<void> {
+    return this.#responding ? Promise.resolve() : new Promise(() => {});
+  }
+
+  // Simulates a connection that silently died without being closed
+  stopResponding(): void {
+    this.#responding = false;
+  }
+
+  // Closes the WebSocket after replying, to test client reconnection
+  disconnect(): void {
+    setTimeout(() => this.#socket?.close(), 0);
+  }
+
+  // Closes the WebSocket with the given close code, such as 4001 for an
+  // expired login
+  closeWith(code: number, reason: string): void {
+    setTimeout(() => this.#socket?.close(code, reason), 0);
+  }
+}
+
+// Counts logins across all connections, so clients can tell sessions apart
+let loginCount = 0;
+
+// Counts requests to /api/flaky, which fails every other one
+let flakyRequestCount = 0;
+
+// API handed out by authenticate(), the capability-based login pattern
+class AuthenticatedApi extends RpcTarget {
+  #socket?: WebSocket;
+  #token: string;
+  #login = ++loginCount;
+
+  constructor(token: string, socket?: WebSocket) {
+    super();
+    this.#token = token;
+    this.#socket = socket;
+  }
+
+  whoami(): string {
+    return `Signed in as ${this.#token} (login ${this.#login})`;
+  }
+
+  disconnect(): void {
+    setTimeout(() => this.#socket?.close(), 0);
+  }
+}
+
+class CounterSubscription extends RpcTarget {
+  #count = 0;
+  #timer: number;
+  #onTick: RpcStub<(count: number) => void>;
+
+  constructor(intervalMs: number, onTick: RpcStub<(count: number) => void>) {
+    super();
+    this.#onTick = onTick;
+    this.#timer = setInterval(() => {
+      this.#count++;
+      this.#onTick(this.#count).catch(() => this[Symbol.dispose]());
+    }, intervalMs);
+  }
+
+  [Symbol.dispose]() {
+    clearInterval(this.#timer);
+    this.#onTick[Symbol.dispose]();
+  }
 }
 
 interface ServerInstance {
@@ -102,6 +211,34 @@ function createTestFixtureServer(port: number = DEFAULT_PORT): ServerInstance {
       }
     }
 
+    // Needs a fresh token, for testing how expired tokens are refreshed
+    if (url.pathname === '/api/secure' && req.method === 'POST') {
+      if (req.headers.get('Authorization') !== 'Bearer fresh-token') {
+        return new Response('Unauthorized', { status: 401 });
+      }
+      return handleRpcRequest(req);
+    }
+
+    // Answers after a second, for testing timeouts and cancellation
+    if (url.pathname === '/api/slow' && req.method === 'POST') {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      return handleRpcRequest(req);
+    }
+
+    // Every other request fails, for testing how failed batches are retried
+    if (url.pathname === '/api/flaky' && req.method === 'POST') {
+      flakyRequestCount++;
+      if (flakyRequestCount % 2 === 1) {
+        return new Response('Bad Gateway', { status: 502 });
+      }
+      return handleRpcRequest(req);
+    }
+
+    // Always fails, for testing how HTTP errors are reported
+    if (url.pathname === '/api/unavailable') {
+      return new Response('Service Unavailable', { status: 503 });
+    }
+
     // Serve bundled JavaScript files
     if (url.pathname.startsWith('/dist/')) {
       try {
@@ -183,7 +320,10 @@ function createWebSocketServer(port: number = WS_PORT): ServerInstance {
         console.log('WebSocket connection opened');
         // Initialize capnweb RPC session with our test API
         try {
-          newWebSocketRpcSession(socket, new TestApiImpl());
+          newWebSocketRpcSession(
+            socket,
+            new TestApiImpl(socket, url.searchParams.get('token')),
+          );
           console.log('Capnweb RPC session initialized');
         } catch (error) {
           console.error('Failed to initialize RPC session:', error);
@@ -1,7 +1,8 @@
 /// <reference lib="dom" />
-import React, { Component, useState } from 'react';
+import React, { Component, useEffect, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
-import { initCapnHttpBatch } from '../http-batch.tsx';
+import { newHttpBatchRpcResponse, RpcTarget } from 'capnweb';
+import { type HttpBatchError, initCapnHttpBatch } from '../http-batch.tsx';
 
 // Mock API interface for testing
 interface TestApi {
@@ -9,21 +10,144 @@ interface TestApi {
   getTimestamp(): Promise<number>;
   add(a: number, b: number): Promise<number>;
   getUserData(userId: string): Promise<{ id: string; name: string }>;
+  authenticate(token: string): Promise<{ whoami(): Promise<string> }>;
+}
+
+// Errors reported by onError are shown in the Error Handling section
+let errorReported: ((error: HttpBatchError) => void) | null = null;
+
+function reportError(error: HttpBatchError) {
+  console.error('[HTTP Batch Error]:', error);
+  errorReported?.(error);
 }
 
 // Initialize HTTP Batch connection
 const {
   useCapnWeb,
   useCapnWebQuery,
+  useCapnWebState,
+  useCapnWebQueryState,
+  useCapnWebMutation,
   getCapnWebStub,
+  invalidate,
+  refetch,
 } = initCapnHttpBatch<TestApi>('/api/rpc', {
   headers: {
     'X-Test-Header': 'test-value',
   },
   credentials: 'same-origin',
-  onError: (error) => {
-    console.error('[HTTP Batch Error]:', error);
+  onError: reportError,
+});
+
+// The server answers every batch sent here with a 503
+const unavailable = initCapnHttpBatch<TestApi>('/api/unavailable', {
+  onError: reportError,
+  logger: false,
+});
+
+// Starts out expired, onUnauthorized swaps in the token the server accepts
+let token = 'expired-token';
+let tokenRefreshes = 0;
+const secure = initCapnHttpBatch<TestApi>('/api/secure', {
+  headers: () => Promise.resolve({ Authorization: `Bearer ${token}` }),
+  onUnauthorized: () => {
+    tokenRefreshes++;
+    token = 'fresh-token';
+  },
+  logger: false,
+});
+
+// Hook calls made in one render pass share a batch, and headers are computed
+// once per batch, which makes them a handy request counter
+let batchesSent = 0;
+const batched = initCapnHttpBatch<TestApi>('/api/rpc', {
+  batchWindow: 'microtask',
+  headers: () => {
+    batchesSent++;
+    return {};
+  },
+  logger: false,
+});
+
+// The server fails every other request sent here with a 502, so each batch
+// succeeds on its second attempt
+let flakyRequests = 0;
+const flaky = initCapnHttpBatch<TestApi>('/api/flaky', {
+  retry: { attempts: 3, backoffStrategy: () => 100 },
+  headers: () => {
+    flakyRequests++;
+    return {};
+  },
+  logger: false,
+});
+
+// The server takes a second to answer batches sent to /api/slow
+let slowRequests = 0;
+const countSlowRequest = () => {
+  slowRequests++;
+  return {};
+};
+const slow = initCapnHttpBatch<TestApi>('/api/slow', {
+  headers: countSlowRequest,
+  logger: false,
+});
+const timedOut = initCapnHttpBatch<TestApi>('/api/slow', {
+  timeout: 300,
+  headers: countSlowRequest,
+  logger: false,
+});
+
+// Answers batches in the page itself, without any network request
+class InProcessApi extends RpcTarget {
+  echo(message: string): string {
+    return `in-process: ${message}`;
+  }
+}
+
+const inProcess = initCapnHttpBatch<TestApi>('/api/never-requested', {
+  fetch: (request) => newHttpBatchRpcResponse(request, new InProcessApi()),
+  logger: false,
+});
+
+// Answers after a second without looking at the request's signal, so the
+// 300ms timeout has to be enforced by the client itself
+const slowInProcess = initCapnHttpBatch<TestApi>('/api/never-requested', {
+  fetch: async (request) => {
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    return newHttpBatchRpcResponse(request, new InProcessApi());
   },
+  timeout: 300,
+  logger: false,
+});
+
+// Keeps at most two results, evicting the least recently used one beyond that
+const lru = initCapnHttpBatch<TestApi>('/api/rpc', {
+  queryCache: { staleTime: 60000, maxEntries: 2 },
+  logger: false,
+});
+
+// Sweeps results unused for 300ms. Intervals started with its unique sweep
+// interval are tracked, to show that close() stops the sweeper.
+const SWEEP_INTERVAL = 250;
+const sweepers = new Set<ReturnType<typeof setInterval>>();
+const nativeSetInterval = globalThis.setInterval;
+const nativeClearInterval = globalThis.clearInterval;
+globalThis.setInterval = ((handler: TimerHandler, timeout?: number) => {
+  const id = nativeSetInterval(handler, timeout);
+  if (timeout === SWEEP_INTERVAL) {
+    sweepers.add(id);
+  }
+  return id;
+}) as typeof setInterval;
+globalThis.clearInterval = ((id?: ReturnType<typeof setInterval>) => {
+  if (id !== undefined) {
+    sweepers.delete(id);
+  }
+  nativeClearInterval(id);
+}) as typeof clearInterval;
+const swept = initCapnHttpBatch<TestApi>('/api/rpc', {
+  queryCache: { staleTime: 60000, gcTime: 300, sweepInterval: SWEEP_INTERVAL },
+  logger: false,
 });
 
 // Error Boundary to catch errors from disposed sessions
@@ -227,6 +351,35 @@ function UseCapnWebTests() {
   );
 }
 
+// Hooks called after a suspending useCapnWeb must survive the replayed render
+function HooksAfterUseCapnWebTests() {
+  const user = useCapnWeb('getUserData', 'hooks-after');
+  const [clicks, setClicks] = useState(0);
+  const { mutate, data } = useCapnWebMutation((api, value: number) =>
+    api.add(value, 1)
+  );
+
+  return (
+    <div className='test-section'>
+      <h2>Hooks After useCapnWeb</h2>
+      <div className='test-result' data-testid='hooks-after-result'>
+        {user.name}, clicks {clicks}, mutation {data ?? 'idle'}
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => {
+          setClicks((n) => n + 1);
+          mutate(clicks);
+        }}
+        data-testid='hooks-after-btn'
+      >
+        Click
+      </button>
+    </div>
+  );
+}
+
 function UseCapnWebQueryTests() {
   // Simple demonstration of useCapnWebQuery with batching
   // All three calls are batched into a single HTTP request
@@ -276,6 +429,403 @@ function UseCapnWebQueryTests() {
   );
 }
 
+// Times the Cache Invalidation Demo suspended, which refetch() must not cause
+let invalidationFallbacks = 0;
+
+function InvalidationFallback() {
+  useEffect(() => {
+    invalidationFallbacks++;
+  }, []);
+  return <div>Loading...</div>;
+}
+
+function CacheInvalidationTests() {
+  // getTimestamp changes on every call, so a new value proves a re-fetch
+  const timestamp = useCapnWeb('getTimestamp');
+  const query = useCapnWebQuery(
+    { name: 'refetchableTimestamp', withRefetch: true },
+    (api) => api.getTimestamp(),
+  );
+  // Named like the useCapnWeb call, which invalidate(['getTimestamp']) must not
+  // mistake it for
+  const sameName = useCapnWebQuery(
+    'getTimestamp',
+    (api) => api.getTimestamp(),
+    'query',
+  );
+
+  return (
+    <div className='test-section'>
+      <h2>Cache Invalidation Demo</h2>
+      <div className='info-box'>
+        ℹ️ invalidate() evicts cached results and refetch() re-runs them, both
+        re-render the components using them with fresh data
+      </div>
+      <div
+        className='message-item'
+        data-testid='invalidation-timestamp'
+        data-timestamp={timestamp}
+        data-fallbacks={invalidationFallbacks}
+      >
+        Timestamp: {timestamp}
+      </div>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        <button
+          type='button'
+          className='action-button'
+          onClick={() => invalidate(['getTimestamp'])}
+          data-testid='invalidate-btn'
+        >
+          Invalidate
+        </button>
+        <button
+          type='button'
+          className='action-button'
+          onClick={() => refetch(['getTimestamp'])}
+          data-testid='refetch-btn'
+        >
+          Refetch
+        </button>
+      </div>
+      <div
+        className='message-item'
+        data-testid='same-name-query-timestamp'
+        data-timestamp={sameName}
+      >
+        Query named getTimestamp: {sameName}
+      </div>
+      <div
+        className='message-item'
+        data-testid='query-refetch-timestamp'
+        data-timestamp={query.data}
+      >
+        Query timestamp: {query.data}
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => query.refetch()}
+        data-testid='query-refetch-btn'
+      >
+        Refetch Query
+      </button>
+    </div>
+  );
+}
+
+function NonSuspendingTests() {
+  // Rendered outside any Suspense boundary, loading states are shown inline
+  const sum = useCapnWebState('add', 7, 8);
+  const timestamp = useCapnWebQueryState(
+    'stateTimestamp',
+    (api) => api.getTimestamp(),
+  );
+
+  return (
+    <div className='test-section'>
+      <h2>Non-Suspending Hooks Demo</h2>
+      <div className='info-box'>
+        ℹ️ useCapnWebState and useCapnWebQueryState return loading and error
+        state instead of suspending
+      </div>
+      <div
+        className='message-item'
+        data-testid='state-sum'
+        data-status={sum.status}
+      >
+        {sum.status === 'pending' ? 'Loading sum...' : `7 + 8 = ${sum.data}`}
+      </div>
+      <div
+        className='message-item'
+        data-testid='state-timestamp'
+        data-status={timestamp.status}
+        data-fetching={String(timestamp.isFetching)}
+        data-timestamp={timestamp.data}
+      >
+        {timestamp.status === 'pending'
+          ? 'Loading timestamp...'
+          : `Timestamp: ${timestamp.data}${
+            timestamp.isFetching ? ' (refreshing)' : ''
+          }`}
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => timestamp.refetch()}
+        data-testid='state-refetch-btn'
+      >
+        Refetch Timestamp
+      </button>
+    </div>
+  );
+}
+
+function MutationTests() {
+  const { mutate, status, data, error, reset } = useCapnWebMutation(
+    (api, value: number) => api.add(value, 1),
+    // Mutating refreshes the Cache Invalidation Demo timestamp
+    { invalidates: [['getTimestamp']] },
+  );
+  // Counts how often the controls changed identity, which they never should
+  const controlChanges = useRef(0);
+  useEffect(() => {
+    controlChanges.current++;
+  }, [mutate, reset]);
+
+  return (
+    <div className='test-section'>
+      <h2>useCapnWebMutation Demo</h2>
+      <div className='info-box'>
+        ℹ️ useCapnWebMutation tracks pending/error state of writes and
+        invalidates cached results when they succeed
+      </div>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        <button
+          type='button'
+          className='action-button'
+          onClick={() => mutate(41)}
+          disabled={status === 'pending'}
+          data-testid='mutate-btn'
+        >
+          {status === 'pending' ? 'Mutating...' : 'Run Mutation'}
+        </button>
+        <button
+          type='button'
+          className='action-button'
+          onClick={reset}
+          data-testid='mutation-reset-btn'
+        >
+          Reset
+        </button>
+      </div>
+      <div
+        className='message-item'
+        data-testid='mutation-status'
+        data-status={status}
+        data-control-changes={controlChanges.current}
+      >
+        Status: {status}
+        {status === 'success' && ` (result: ${data})`}
+        {status === 'error' && ` (${error?.message})`}
+      </div>
+    </div>
+  );
+}
+
+function OptimisticUpdateTests() {
+  const sum = useCapnWeb('add', 2, 3);
+  const { mutate, status } = useCapnWebMutation(
+    // Always fails, so the optimistic value must be rolled back
+    (api) => (api as any).nonExistentMethod(),
+    { optimistic: { key: ['add', 2, 3], update: (current) => current + 100 } },
+  );
+  const throwing = useCapnWebMutation((api) => api.add(2, 3), {
+    // The second update throws, so the first must be rolled back
+    optimistic: [
+      { key: ['add', 2, 3], update: (current) => current + 100 },
+      {
+        key: ['add', 2, 3],
+        update: () => {
+          throw new Error('Update failed');
+        },
+      },
+    ],
+  });
+
+  return (
+    <div className='test-section'>
+      <h2>Optimistic Update Demo</h2>
+      <div className='info-box'>
+        ℹ️ Optimistic updates are shown immediately and rolled back when the RPC
+        call fails
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => mutate()}
+        disabled={status === 'pending'}
+        data-testid='optimistic-mutate-btn'
+      >
+        Run Failing Optimistic Mutation
+      </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => throwing.mutate()}
+        disabled={throwing.status === 'pending'}
+        data-testid='optimistic-throw-btn'
+      >
+        Run Mutation With Throwing Update
+      </button>
+      <div
+        className='message-item'
+        data-testid='optimistic-value'
+        data-value={sum}
+        data-status={status}
+      >
+        2 + 3 = {sum} (mutation status: {status})
+      </div>
+      <div
+        className='message-item'
+        data-testid='optimistic-throw-status'
+        data-status={throwing.status}
+      >
+        Throwing update status: {throwing.status}
+        {throwing.status === 'error' && ` (${throwing.error?.message})`}
+      </div>
+    </div>
+  );
+}
+
+function StaleTimestamp() {
+  // Every remount revalidates, since a staleTime of 0 makes results stale at once
+  const timestamp = useCapnWebQuery(
+    { name: 'staleTimestamp', staleTime: 0 },
+    (api) => api.getTimestamp(),
+  );
+
+  return (
+    <div
+      className='message-item'
+      data-testid='stale-timestamp'
+      data-timestamp={timestamp}
+    >
+      Timestamp: {timestamp}
+    </div>
+  );
+}
+
+function StaleWhileRevalidateTests() {
+  const [visible, setVisible] = useState(true);
+
+  return (
+    <div className='test-section'>
+      <h2>Stale-While-Revalidate Demo</h2>
+      <div className='info-box'>
+        ℹ️ With staleTime set, remounting renders the cached value immediately
+        and swaps in the revalidated value when it arrives
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => setVisible((_visible) => !_visible)}
+        data-testid='toggle-stale-btn'
+      >
+        {visible ? 'Unmount' : 'Remount'}
+      </button>
+      {visible && (
+        <React.Suspense
+          fallback={<div data-testid='stale-loading'>Loading...</div>}
+        >
+          <StaleTimestamp />
+        </React.Suspense>
+      )}
+    </div>
+  );
+}
+
+function LruTimestamp({ id }: { id: string }) {
+  const timestamp = lru.useCapnWebQuery(
+    `lruTimestamp-${id}`,
+    (api) => api.getTimestamp(),
+  );
+
+  return (
+    <div
+      className='message-item'
+      data-testid='lru-timestamp'
+      data-id={id}
+      data-timestamp={timestamp}
+    >
+      Query {id}: {timestamp}
+    </div>
+  );
+}
+
+function SweptTimestamp() {
+  const timestamp = swept.useCapnWebQuery(
+    'sweptTimestamp',
+    (api) => api.getTimestamp(),
+  );
+
+  return (
+    <div
+      className='message-item'
+      data-testid='swept-timestamp'
+      data-timestamp={timestamp}
+    >
+      Timestamp: {timestamp}
+    </div>
+  );
+}
+
+function CacheLifetimeTests() {
+  const [lruId, setLruId] = useState('a');
+  const [sweptVisible, setSweptVisible] = useState(true);
+  const [activeSweepers, setActiveSweepers] = useState(0);
+
+  useEffect(() => {
+    const poll = setInterval(() => setActiveSweepers(sweepers.size), 50);
+    return () => clearInterval(poll);
+  }, []);
+
+  return (
+    <div className='test-section'>
+      <h2>Cache Lifetime Demo</h2>
+      <div className='info-box'>
+        ℹ️ maxEntries evicts the least recently used results, gcTime and
+        sweepInterval remove unused ones, and close() stops the sweep
+      </div>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        {['a', 'b', 'c'].map((id) => (
+          <button
+            key={id}
+            type='button'
+            className='action-button'
+            onClick={() => setLruId(id)}
+            data-testid={`lru-${id}-btn`}
+          >
+            Show Query {id}
+          </button>
+        ))}
+      </div>
+      <React.Suspense fallback={<div>Loading...</div>}>
+        <LruTimestamp key={lruId} id={lruId} />
+      </React.Suspense>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        <button
+          type='button'
+          className='action-button'
+          onClick={() => setSweptVisible((_visible) => !_visible)}
+          data-testid='toggle-swept-btn'
+        >
+          {sweptVisible ? 'Unmount' : 'Remount'}
+        </button>
+        <button
+          type='button'
+          className='action-button'
+          onClick={() => swept.close()}
+          data-testid='close-swept-btn'
+        >
+          Close
+        </button>
+      </div>
+      {sweptVisible && (
+        <React.Suspense fallback={<div>Loading...</div>}>
+          <SweptTimestamp />
+        </React.Suspense>
+      )}
+      <div
+        className='message-item'
+        data-testid='active-sweepers'
+        data-count={activeSweepers}
+      >
+        Active sweepers: {activeSweepers}
+      </div>
+    </div>
+  );
+}
+
 function ManualSessionControl() {
   return (
     <div className='test-section'>
@@ -351,6 +901,14 @@ function ErrorHandling() {
   const api = getCapnWebStub();
   const [result, setResult] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const [reported, setReported] = useState<HttpBatchError | null>(null);
+
+  useEffect(() => {
+    errorReported = setReported;
+    return () => {
+      errorReported = null;
+    };
+  }, []);
 
   const triggerError = async () => {
     setLoading(true);
@@ -382,6 +940,37 @@ function ErrorHandling() {
       >
         {loading ? 'Testing...' : 'Trigger Error'}
       </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => {
+          getCapnWebStub().authenticate('').catch(() => {});
+        }}
+        data-testid='trigger-rejection-btn'
+      >
+        Trigger Rejected Call
+      </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => {
+          getCapnWebStub().authenticate('').map((api) => api.whoami())
+            .catch(() => {});
+        }}
+        data-testid='trigger-map-rejection-btn'
+      >
+        Trigger Rejected map()
+      </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => {
+          unavailable.getCapnWebStub().echo('lost').catch(() => {});
+        }}
+        data-testid='trigger-http-error-btn'
+      >
+        Call Unavailable Endpoint
+      </button>
       {result && (
         <div
           className={`test-result ${
@@ -392,6 +981,268 @@ function ErrorHandling() {
           {result}
         </div>
       )}
+      {reported && (
+        <div
+          className='message-item'
+          data-testid='reported-error'
+          data-kind={reported.kind}
+        >
+          onError: {reported.kind} {reported.status ?? ''}{' '}
+          [{reported.methods.join(', ')}]
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TokenRefreshTests() {
+  const [result, setResult] = useState('');
+  const [calls, setCalls] = useState(0);
+
+  const callSecure = async () => {
+    const call = calls + 1;
+    setCalls(call);
+    try {
+      const message = await secure.getCapnWebStub().echo('secret');
+      setResult(
+        `Call ${call}: ${message} (token refreshes: ${tokenRefreshes})`,
+      );
+    } catch (error) {
+      setResult(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  return (
+    <div className='test-section'>
+      <h2>Token Refresh</h2>
+      <div className='info-box'>
+        ℹ️ Headers are computed per batch. The first call is sent with an
+        expired token, gets a 401 and is retried after onUnauthorized refreshes
+        it
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={callSecure}
+        data-testid='secure-call-btn'
+      >
+        Call Secure Endpoint
+      </button>
+      {result && (
+        <div className='message-item' data-testid='secure-result'>
+          {result}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AutoBatchItem({ value }: { value: number }) {
+  const sum = batched.useCapnWebState('add', value, value);
+
+  return (
+    <div className='message-item' data-testid={`auto-batch-${value}`}>
+      {sum.status === 'pending'
+        ? 'Loading...'
+        : `${value} + ${value} = ${sum.data} (HTTP requests: ${batchesSent})`}
+    </div>
+  );
+}
+
+function AutoBatchTests() {
+  return (
+    <div className='test-section'>
+      <h2>Auto-Batching Demo</h2>
+      <div className='info-box'>
+        ℹ️ With batchWindow set, the calls made by these three components while
+        rendering are sent in a single HTTP request
+      </div>
+      <AutoBatchItem value={1} />
+      <AutoBatchItem value={2} />
+      <AutoBatchItem value={3} />
+    </div>
+  );
+}
+
+function RetryTests() {
+  const [result, setResult] = useState('');
+
+  const callFlaky = async () => {
+    const requestsBefore = flakyRequests;
+    try {
+      const message = await flaky.getCapnWebStub().echo('retried');
+      setResult(
+        `${message} (HTTP requests: ${flakyRequests - requestsBefore})`,
+      );
+    } catch (error) {
+      setResult(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  return (
+    <div className='test-section'>
+      <h2>Retrying Failed Batches</h2>
+      <div className='info-box'>
+        ℹ️ The server answers every other request with a 502, which the retry
+        option sends again after a short backoff
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={callFlaky}
+        data-testid='flaky-call-btn'
+      >
+        Call Flaky Endpoint
+      </button>
+      {result && (
+        <div className='message-item' data-testid='flaky-result'>
+          {result}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SlowEchoResult(
+  { testId, echo }: { testId: string; echo: { status: string; error: any } },
+) {
+  return (
+    <div
+      className='message-item'
+      data-testid={testId}
+      data-status={echo.status}
+    >
+      {echo.status === 'error'
+        ? `${echo.error?.name} (HTTP requests: ${slowRequests})`
+        : echo.status}
+    </div>
+  );
+}
+
+function TimedOutEcho() {
+  const echo = timedOut.useCapnWebState('echo', 'timeout');
+  return <SlowEchoResult testId='slow-timeout' echo={echo} />;
+}
+
+function AbortableEcho({ signal }: { signal: AbortSignal }) {
+  const echo = slow.useCapnWebState({ method: 'echo', signal }, 'abortable');
+  return <SlowEchoResult testId='slow-abortable' echo={echo} />;
+}
+
+function TimeoutTests() {
+  const [showTimeout, setShowTimeout] = useState(false);
+  const [abortable, setAbortable] = useState<
+    { controller: AbortController; id: number } | null
+  >(null);
+
+  return (
+    <div className='test-section'>
+      <h2>Timeouts and Cancellation</h2>
+      <div className='info-box'>
+        ℹ️ The server takes a second to answer, longer than the 300ms timeout.
+        Timed out and aborted results aren't cached, so mounting again sends a
+        new request
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => setShowTimeout((_show) => !_show)}
+        data-testid='toggle-timeout-btn'
+      >
+        {showTimeout ? 'Unmount' : 'Mount'} Timed Out Query
+      </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() =>
+          setAbortable((previous) => ({
+            controller: new AbortController(),
+            id: (previous?.id ?? 0) + 1,
+          }))}
+        data-testid='start-abortable-btn'
+      >
+        Start Abortable Query
+      </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => abortable?.controller.abort()}
+        data-testid='abort-btn'
+      >
+        Abort
+      </button>
+      {showTimeout && <TimedOutEcho />}
+      {/* A new controller remounts the query, which fetches it again */}
+      {abortable && (
+        <AbortableEcho
+          key={abortable.id}
+          signal={abortable.controller.signal}
+        />
+      )}
+    </div>
+  );
+}
+
+function CustomFetchTests() {
+  const [result, setResult] = useState('');
+  const [slowResult, setSlowResult] = useState('');
+
+  const callInProcess = async () => {
+    try {
+      setResult(await inProcess.getCapnWebStub().echo('hello'));
+    } catch (error) {
+      setResult(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  const callSlowInProcess = async () => {
+    setSlowResult('Pending');
+    try {
+      setSlowResult(await slowInProcess.getCapnWebStub().echo('slow'));
+    } catch (error) {
+      setSlowResult(error instanceof Error ? error.name : String(error));
+    }
+  };
+
+  return (
+    <div className='test-section'>
+      <h2>Custom Fetch</h2>
+      <div className='info-box'>
+        ℹ️ The fetch option hands every batch to an in-process capnweb handler
+        instead of the network
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={callInProcess}
+        data-testid='in-process-call-btn'
+      >
+        Call In-Process API
+      </button>
+      {result && (
+        <div className='message-item' data-testid='in-process-result'>
+          {result}
+        </div>
+      )}
+      <button
+        type='button'
+        className='action-button'
+        onClick={callSlowInProcess}
+        data-testid='slow-in-process-call-btn'
+      >
+        Call Slow In-Process API
+      </button>
+      {slowResult && (
+        <div className='message-item' data-testid='slow-in-process-result'>
+          {slowResult}
+        </div>
+      )}
     </div>
   );
 }
@@ -405,14 +1256,42 @@ function App() {
           <UseCapnWebTests />
         </React.Suspense>
       </ErrorBoundary>
+      <ErrorBoundary>
+        <React.Suspense fallback={<div>Loading...</div>}>
+          <HooksAfterUseCapnWebTests />
+        </React.Suspense>
+      </ErrorBoundary>
       <ErrorBoundary>
         <React.Suspense fallback={<div>Loading...</div>}>
           <UseCapnWebQueryTests />
         </React.Suspense>
       </ErrorBoundary>
+      <ErrorBoundary>
+        <React.Suspense fallback={<InvalidationFallback />}>
+          <CacheInvalidationTests />
+        </React.Suspense>
+      </ErrorBoundary>
+      <ErrorBoundary>
+        <StaleWhileRevalidateTests />
+      </ErrorBoundary>
+      <ErrorBoundary>
+        <CacheLifetimeTests />
+      </ErrorBoundary>
+      <NonSuspendingTests />
+      <MutationTests />
+      <ErrorBoundary>
+        <React.Suspense fallback={<div>Loading...</div>}>
+          <OptimisticUpdateTests />
+        </React.Suspense>
+      </ErrorBoundary>
       <DirectApiUsage />
       <ManualSessionControl />
       <ErrorHandling />
+      <TokenRefreshTests />
+      <AutoBatchTests />
+      <RetryTests />
+      <TimeoutTests />
+      <CustomFetchTests />
     </div>
   );
 }
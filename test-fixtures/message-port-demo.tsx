@@ -2,7 +2,7 @@
 import React, { Component, useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import { initCapnMessagePort } from '../message-port.tsx';
-import type { RpcTarget } from 'capnweb';
+import { newMessagePortRpcSession, RpcTarget } from 'capnweb';
 
 // Mock API interface for testing
 interface TestApi extends RpcTarget {
@@ -65,6 +65,30 @@ function initializeWorker(): Promise<void> {
   });
 }
 
+// Served in the page itself, over a channel of its own
+class HandshakeApi extends RpcTarget {
+  echo(message: string): string {
+    return message;
+  }
+
+  add(a: number, b: number): number {
+    return a + b;
+  }
+}
+
+// The first handshake fails as if the auth service were briefly down, the
+// next call retries it
+let handshakes = 0;
+const handshakeChannel = new MessageChannel();
+newMessagePortRpcSession(handshakeChannel.port2, new HandshakeApi());
+const handshaking = initCapnMessagePort<TestApi>(handshakeChannel.port1, {
+  onSession: (api) =>
+    ++handshakes === 1
+      ? Promise.reject(new Error('Auth service unavailable'))
+      : api,
+  logger: false,
+});
+
 // Error Boundary to catch errors from disposed sessions
 class ErrorBoundary extends Component<
   { children: React.ReactNode },
@@ -315,6 +339,44 @@ function ManualPortControl() {
   );
 }
 
+function HandshakeRetry() {
+  const [result, setResult] = useState<string | null>(null);
+
+  const call = async () => {
+    try {
+      const echoed = await handshaking.getCapnWebStub().echo('Handshake ok');
+      setResult(`Success: ${echoed} (handshake ${handshakes})`);
+    } catch (error) {
+      setResult(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  return (
+    <div className='test-section'>
+      <h2>Handshake Retry</h2>
+      <div className='info-box'>
+        ℹ️ A failed onSession handshake is retried by the next call instead of
+        failing every call until the page reloads
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={call}
+        data-testid='handshake-call-btn'
+      >
+        Call Through Handshake
+      </button>
+      {result && (
+        <div className='test-result' data-testid='handshake-result'>
+          {result}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function DirectApiUsage() {
   const api = capnWebHooks!.getCapnWebStub();
   const [result, setResult] = useState<string>('');
@@ -442,6 +504,7 @@ function App() {
         </React.Suspense>
         <DirectApiUsage />
       </ErrorBoundary>
+      <HandshakeRetry />
       <ManualPortControl />
     </div>
   );
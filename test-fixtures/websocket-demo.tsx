@@ -9,6 +9,30 @@ interface TestApi {
   echo(message: string): Promise<string>;
   getTimestamp(): Promise<number>;
   add(a: number, b: number): Promise<number>;
+  watchCounter(
+    intervalMs: number,
+    onTick: (count: number) => void,
+  ): Promise<Disposable>;
+  disconnect(): Promise<void>;
+  closeWith(code: number, reason: string): Promise<void>;
+  ping(): Promise<void>;
+  stopResponding(): Promise<void>;
+  getToken(): Promise<string | null>;
+  getConnectionId(): Promise<number>;
+  authenticate(token: string): Promise<AuthenticatedApi>;
+}
+
+// API returned by authenticate()
+interface AuthenticatedApi {
+  whoami(): Promise<string>;
+  disconnect(): Promise<void>;
+}
+
+// Each connection attempt gets a fresh token, as if from an auth service
+let tokenCount = 0;
+async function getWebSocketUrl() {
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  return `ws://127.0.0.1:8081/?token=token-${++tokenCount}`;
 }
 
 // Initialize WebSocket connection
@@ -16,9 +40,21 @@ const {
   getCapnWebStub,
   useCapnWeb,
   useCapnWebQuery,
+  useCapnWebQueryState,
+  useCapnWebSubscription,
   useConnectionState,
   close,
-} = initCapnWebSocket<TestApi>('ws://127.0.0.1:8081', {
+  open,
+  reconnect,
+} = initCapnWebSocket<TestApi>(getWebSocketUrl, {
+  retries: Infinity,
+  maxBackoffMs: 2000,
+  // Connections dropping within 2s keep counting as retries
+  resetRetriesAfterMs: 2000,
+  refetchOnReconnect: true,
+  queueWhileDisconnected: { timeout: 10000 },
+  // 4001 means the login expired, retrying with the same URL can't help
+  shouldReconnect: (event) => event.code !== 4001,
   onConnected: () => {
     console.log('[Callback] Connected');
   },
@@ -33,6 +69,77 @@ const {
   },
 });
 
+// Second connection whose hooks use the stub returned by authenticate()
+const authenticated = initCapnWebSocket<AuthenticatedApi>(
+  'ws://127.0.0.1:8081',
+  {
+    refetchOnReconnect: true,
+    onSession: (api) => api.authenticate('demo-token'),
+    // Keep the console to the main connection's output
+    logger: false,
+  },
+);
+
+// The first URL never arrives and the second is malformed, so only the third
+// attempt connects
+let badUrlCalls = 0;
+const badUrl = initCapnWebSocket<TestApi>(() => {
+  badUrlCalls++;
+  if (badUrlCalls === 1) {
+    return new Promise<string>(() => {});
+  }
+  return badUrlCalls === 2 ? 'ws://[malformed' : 'ws://127.0.0.1:8081';
+}, {
+  timeout: 500,
+  backoffStrategy: () => 100,
+  logger: false,
+});
+
+// Pings every second on its own connection, so a slow ping never forces the
+// main connection to reconnect in the middle of another test
+const heartbeat = initCapnWebSocket<TestApi>('ws://127.0.0.1:8081', {
+  heartbeat: { interval: 1000, timeout: 1000, method: 'ping' },
+  logger: false,
+});
+
+// Shared by every open demo tab, through whichever tab is the leader
+const shared = initCapnWebSocket<TestApi>('ws://127.0.0.1:8081', {
+  shareAcrossTabs: { name: 'websocket-demo' },
+  logger: false,
+});
+
+// Console output mentioning the logger demo connections, which must stay empty
+// as one is silenced and the other has a logger of its own
+const consoleLeaks: string[] = [];
+for (const level of ['debug', 'info', 'warn', 'error'] as const) {
+  const original = console[level];
+  console[level] = (...args: unknown[]) => {
+    if (args.some((arg) => String(arg).includes('/logger-demo'))) {
+      consoleLeaks.push(level);
+    }
+    original(...args);
+  };
+}
+
+const silent = initCapnWebSocket<TestApi>(
+  'ws://127.0.0.1:8081/logger-demo/silent',
+  { logger: false },
+);
+
+// Levels the custom logger received, in order
+const loggedLevels: string[] = [];
+const logged = initCapnWebSocket<TestApi>(
+  'ws://127.0.0.1:8081/logger-demo/logged',
+  {
+    logger: {
+      debug: () => loggedLevels.push('debug'),
+      info: () => loggedLevels.push('info'),
+      warn: () => loggedLevels.push('warn'),
+      error: () => loggedLevels.push('error'),
+    },
+  },
+);
+
 // Error Boundary to catch errors from disposed sessions
 class ErrorBoundary extends Component<
   { children: React.ReactNode },
@@ -76,6 +183,7 @@ function ConnectionStatus() {
       case 'reconnecting':
         return 'status-badge status-reconnecting';
       case 'disconnected':
+      case 'offline':
         return 'status-badge status-disconnected';
       case 'closed':
         return 'status-badge status-closed';
@@ -85,7 +193,9 @@ function ConnectionStatus() {
   const getStatusText = () => {
     switch (state.status) {
       case 'connected':
-        return '✓ Connected';
+        return `✓ Connected${
+          state.latencyMs !== undefined ? ` (${state.latencyMs}ms)` : ''
+        }`;
       case 'connecting':
         return `⏳ Connecting${
           state.attempt > 0 ? ` (attempt ${state.attempt})` : ''
@@ -97,7 +207,11 @@ function ConnectionStatus() {
             : ''
         })`;
       case 'disconnected':
-        return `⚠ Disconnected${state.reason ? `: ${state.reason}` : ''}`;
+        return `⚠ Disconnected${state.code ? ` (${state.code})` : ''}${
+          state.reason ? `: ${state.reason}` : ''
+        }`;
+      case 'offline':
+        return '📴 Offline';
       case 'closed':
         return '🔒 Closed';
     }
@@ -134,6 +248,11 @@ function ManualConnectionControl() {
     setClosed(true);
   };
 
+  const handleOpen = () => {
+    open();
+    setClosed(false);
+  };
+
   return (
     <div className='test-section'>
       <h2>Manual Connection Control</h2>
@@ -146,6 +265,35 @@ function ManualConnectionControl() {
       >
         Close Connection
       </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={handleOpen}
+        disabled={!closed}
+        data-testid='open-connection-btn'
+      >
+        Reopen Connection
+      </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => {
+          reconnect();
+          setClosed(false);
+        }}
+        data-testid='reconnect-btn'
+      >
+        Reconnect
+      </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() =>
+          getCapnWebStub().closeWith(4001, 'Unauthorized').catch(() => {})}
+        data-testid='unauthorized-close-btn'
+      >
+        Simulate Unauthorized Close
+      </button>
       {closed && (
         <div
           className='test-result test-success'
@@ -337,6 +485,306 @@ function UseCapnWebQueryTests() {
   );
 }
 
+function SubscriptionTests() {
+  const [subscribed, setSubscribed] = useState(true);
+
+  const dropConnection = () => {
+    getCapnWebStub().disconnect().catch(() => {});
+  };
+
+  return (
+    <div className='test-section'>
+      <h2>useCapnWebSubscription Demo</h2>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => setSubscribed((prev) => !prev)}
+        data-testid='toggle-subscription-btn'
+      >
+        {subscribed ? 'Unsubscribe' : 'Subscribe'}
+      </button>
+      <button
+        type='button'
+        className='action-button'
+        onClick={dropConnection}
+        data-testid='drop-connection-btn'
+      >
+        Drop Connection
+      </button>
+      {subscribed && <CounterSubscription />}
+      <Suspense fallback={<div>Loading...</div>}>
+        <LiveTimestamp />
+      </Suspense>
+      <ReconnectTimestamp />
+    </div>
+  );
+}
+
+function CounterSubscription() {
+  const { data, error, status } = useCapnWebSubscription('watchCounter', [
+    100,
+  ]);
+
+  return (
+    <div
+      className='test-result'
+      data-testid='subscription-counter'
+      data-status={status}
+    >
+      {error ? `✗ ${error.message}` : `Count: ${data ?? 0}`}
+    </div>
+  );
+}
+
+function LiveTimestamp() {
+  // Fetched again on the new session after every reconnect
+  const timestamp = useCapnWeb({ method: 'getTimestamp', live: true });
+
+  return (
+    <div className='test-result' data-testid='live-timestamp'>
+      {timestamp}
+    </div>
+  );
+}
+
+function ReconnectTimestamp() {
+  // Not live, re-run after reconnecting because of refetchOnReconnect
+  const { data, status } = useCapnWebQueryState(
+    'reconnectTimestamp',
+    (api) => api.getTimestamp(),
+  );
+
+  return (
+    <div
+      className='test-result'
+      data-testid='reconnect-timestamp'
+      data-status={status}
+    >
+      {data}
+    </div>
+  );
+}
+
+function QueueTests() {
+  const [result, setResult] = useState<string | null>(null);
+
+  const callWhileReconnecting = async () => {
+    setResult('Waiting...');
+    await getCapnWebStub().disconnect().catch(() => {});
+    // Give the client time to notice the closed socket
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    try {
+      setResult(await getCapnWebStub().echo('Queued call sent'));
+    } catch (error) {
+      setResult(`✗ ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <div className='test-section'>
+      <h2>Offline Call Queue</h2>
+      <button
+        type='button'
+        className='action-button'
+        onClick={callWhileReconnecting}
+        data-testid='queued-call-btn'
+      >
+        Call While Reconnecting
+      </button>
+      {result && (
+        <div className='test-result' data-testid='queued-call-result'>
+          {result}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BadUrlTests() {
+  const state = badUrl.useConnectionState();
+
+  return (
+    <div className='test-section'>
+      <h2>Unusable URLs</h2>
+      <div
+        className='test-result'
+        data-testid='bad-url-status'
+        data-status={state.status}
+        data-calls={badUrlCalls}
+      >
+        {state.status} after {badUrlCalls} URL function calls
+      </div>
+    </div>
+  );
+}
+
+function LoggerTests() {
+  const silentState = silent.useConnectionState();
+  const loggedState = logged.useConnectionState();
+  const [, forceUpdate] = useState(0);
+
+  // The recorded output isn't React state, so poll it
+  useEffect(() => {
+    const poll = setInterval(() => forceUpdate((n) => n + 1), 100);
+    return () => clearInterval(poll);
+  }, []);
+
+  return (
+    <div className='test-section'>
+      <h2>Logger</h2>
+      <div
+        className='test-result'
+        data-testid='logger-status'
+        data-silent={silentState.status}
+        data-logged={loggedState.status}
+      >
+        Silent: {silentState.status} | Custom logger: {loggedState.status}
+      </div>
+      <div
+        className='test-result'
+        data-testid='logger-output'
+        data-levels={[...new Set(loggedLevels)].sort().join(',')}
+        data-leaks={consoleLeaks.length}
+      >
+        Custom logger received: {loggedLevels.join(', ') || 'nothing'}{' '}
+        | Console output: {consoleLeaks.length}
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => {
+          silent.close();
+          logged.close();
+        }}
+        data-testid='logger-close-btn'
+      >
+        Close Both
+      </button>
+    </div>
+  );
+}
+
+function HeartbeatTests() {
+  const state = heartbeat.useConnectionState();
+
+  return (
+    <div className='test-section'>
+      <h2>Heartbeat</h2>
+      <div
+        className='test-result'
+        data-testid='heartbeat-status'
+        data-status={state.status}
+      >
+        {state.status}
+        {state.status === 'connected' && state.latencyMs !== undefined && (
+          <>
+            {' '}
+            | Latency: <span data-testid='latency'>{state.latencyMs}</span>ms
+          </>
+        )}
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() =>
+          heartbeat.getCapnWebStub().stopResponding().catch(() => {})}
+        data-testid='stop-responding-btn'
+      >
+        Stop Answering Heartbeats
+      </button>
+    </div>
+  );
+}
+
+function ConnectionToken() {
+  const state = useConnectionState();
+  const [token, setToken] = useState<string | null>(null);
+
+  // Ask the server which token the current connection was opened with
+  useEffect(() => {
+    if (state.status === 'connected') {
+      getCapnWebStub().getToken().then(setToken, () => {});
+    }
+  }, [state.status]);
+
+  return (
+    <div className='test-section'>
+      <h2>Connection Token</h2>
+      <div className='test-result' data-testid='connection-token'>
+        {token ?? 'Unknown'}
+      </div>
+    </div>
+  );
+}
+
+function AuthenticatedSession() {
+  return (
+    <div className='test-section'>
+      <h2>Authenticated Session</h2>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() =>
+          authenticated.getCapnWebStub().disconnect().catch(() => {})}
+        data-testid='auth-disconnect-btn'
+      >
+        Drop Authenticated Connection
+      </button>
+      <ErrorBoundary>
+        <Suspense
+          fallback={<div className='loading'>Authenticating...</div>}
+        >
+          <Whoami />
+        </Suspense>
+      </ErrorBoundary>
+    </div>
+  );
+}
+
+function Whoami() {
+  // Suspends until authenticate() has resolved
+  const identity = authenticated.useCapnWeb('whoami');
+
+  return (
+    <div className='test-result' data-testid='whoami'>
+      {identity}
+    </div>
+  );
+}
+
+function SharedConnection() {
+  const state = shared.useConnectionState();
+  const [connectionId, setConnectionId] = useState<number | null>(null);
+
+  // Tabs sharing the connection see the same server-side connection id
+  useEffect(() => {
+    if (state.status === 'connected') {
+      shared.getCapnWebStub().getConnectionId().then(setConnectionId, () => {});
+    }
+  }, [state.status]);
+
+  return (
+    <div className='test-section'>
+      <h2>Connection Shared Across Tabs</h2>
+      <div
+        className='test-result'
+        data-testid='shared-connection-id'
+        data-status={state.status}
+      >
+        {connectionId === null ? 'Unknown' : `Connection ${connectionId}`}
+      </div>
+      <button
+        type='button'
+        className='action-button'
+        onClick={() => shared.getCapnWebStub().disconnect().catch(() => {})}
+        data-testid='shared-drop-btn'
+      >
+        Drop Shared Connection
+      </button>
+    </div>
+  );
+}
+
 function SuspenseTest() {
   const [userId, setUserId] = useState<string | null>(null);
 
@@ -453,6 +901,14 @@ function App() {
           <UseCapnWebQueryTests />
         </Suspense>
       </ErrorBoundary>
+      <ConnectionToken />
+      <SubscriptionTests />
+      <QueueTests />
+      <HeartbeatTests />
+      <LoggerTests />
+      <BadUrlTests />
+      <AuthenticatedSession />
+      <SharedConnection />
       <SuspenseTest />
       <ManualConnectionControl />
       <CallbackLogger />
@@ -1,39 +1,166 @@
 // deno-lint-ignore no-unused-vars verbatim-module-syntax
 import React from 'react';
 import { useEffect, useState } from 'react';
-import type { RpcCompatible, RpcSessionOptions, RpcStub } from 'capnweb';
-import { newWebSocketRpcSession } from 'capnweb';
-import { createCapnWebHooksWithLifecycle } from './core.tsx';
-import type { CapnWebHooks } from './core.tsx';
+import type { RpcCompatible, RpcSessionOptions, RpcTransport } from 'capnweb';
+import { newWebSocketRpcSession, RpcSession, RpcStub } from 'capnweb';
+import { createCapnWebHooksWithLifecycle, resolveLogger } from './core.tsx';
+import type {
+  CapnWebCacheOptions,
+  CapnWebHooks,
+  CapnWebLogger,
+} from './core.tsx';
 
 /**
  * WebSocket connection state.
+ *
+ * When `disconnected`, `code` and `wasClean` come from the last close event and
+ * `reason` is its reason, or why reconnection gave up. Heartbeat timeouts close
+ * with code 4000, and failures to get the URL or to open the WebSocket with it
+ * with code 1006.
  */
 export type WebSocketConnectionState =
   | { status: 'connecting'; attempt: number }
-  | { status: 'connected' }
+  | { status: 'connected'; latencyMs?: number }
   | { status: 'reconnecting'; attempt: number; nextRetryMs?: number }
-  | { status: 'disconnected'; reason?: string }
+  | {
+    status: 'disconnected';
+    reason?: string;
+    code?: number;
+    wasClean?: boolean;
+  }
+  | { status: 'offline' }
   | { status: 'closed' };
 
+/**
+ * Options for queueing calls while the WebSocket is reconnecting.
+ */
+export interface WebSocketQueueOptions {
+  /**
+   * Maximum number of queued calls. Calls beyond it are rejected right away.
+   * @default 100
+   */
+  maxSize?: number;
+
+  /**
+   * Milliseconds a queued call waits for a connection before it is rejected.
+   * @default 30000
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for detecting dead connections with periodic pings.
+ */
+export interface WebSocketHeartbeatOptions {
+  /**
+   * Milliseconds between pings.
+   * @default 30000
+   */
+  interval?: number;
+
+  /**
+   * Milliseconds to wait for a ping to be answered before the connection is
+   * considered dead and a reconnect is started.
+   * @default 10000
+   */
+  timeout?: number;
+
+  /**
+   * Name of a server method, taking no arguments, to call as the ping, such as
+   * a cheap no-op. capnweb has no ping message of its own, and calling a
+   * method the server doesn't have would make it throw on every ping. Any
+   * answer, including an error the method throws, shows the connection is
+   * alive.
+   */
+  method: string;
+}
+
+/**
+ * Reason a call queued by `queueWhileDisconnected` was rejected.
+ * `'reconnect-failed'` is also used when `shouldReconnect` declines to retry.
+ */
+export type WebSocketQueueErrorCode =
+  | 'queue-full'
+  | 'timeout'
+  | 'reconnect-failed'
+  | 'closed';
+
+/**
+ * Error rejecting calls queued by `queueWhileDisconnected` that could not be
+ * sent.
+ */
+export class WebSocketQueueError extends Error {
+  /**
+   * Why the call was rejected.
+   */
+  readonly code: WebSocketQueueErrorCode;
+
+  constructor(code: WebSocketQueueErrorCode, message: string) {
+    super(message);
+    this.name = 'WebSocketQueueError';
+    this.code = code;
+  }
+}
+
+/**
+ * WebSocket URL, or a function returning it that is called before every
+ * connection attempt, for example to include a fresh auth token.
+ */
+export type WebSocketUrl = string | (() => string | Promise<string>);
+
+/**
+ * Options for sharing one WebSocket connection across browser tabs.
+ */
+export interface WebSocketTabSharingOptions {
+  /**
+   * Identifies the shared connection. Tabs using the same name share one
+   * WebSocket, so give each distinct connection its own name.
+   * @default The URL, or 'react-capnweb' for a URL function
+   */
+  name?: string;
+}
+
 /**
  * Options for configuring WebSocket RPC connection behavior.
  */
 export interface WebSocketOptions {
   /**
    * Connection timeout in milliseconds. If the WebSocket doesn't open within
-   * this time, it will be closed and a retry will be attempted.
+   * this time, it will be closed and a retry will be attempted. A URL function
+   * gets the same time to resolve.
    * @default 5000
    */
   timeout?: number;
 
+  /**
+   * Subprotocols to request when opening the WebSocket, passed as the second
+   * argument of the `WebSocket` constructor.
+   */
+  protocols?: string | string[];
+
   /**
    * Maximum number of reconnection attempts when the connection is lost.
    * After this many failed attempts, an error will be logged and reconnection stops.
+   * Use `Infinity` to keep retrying for as long as the page is open.
    * @default 10
    */
   retries?: number;
 
+  /**
+   * Upper bound in milliseconds for the delay returned by `backoffStrategy`.
+   * @default Infinity
+   */
+  maxBackoffMs?: number;
+
+  /**
+   * How long in milliseconds a connection has to stay open before the retry
+   * count is reset. Connections dropping sooner keep counting towards
+   * `retries` and keep backing off further. 0 resets it as soon as the
+   * connection opens.
+   * @default 0
+   */
+  resetRetriesAfterMs?: number;
+
   /**
    * Function to calculate the delay before a reconnection attempt.
    * Receives the current retry count (1-indexed) and returns delay in milliseconds.
@@ -65,16 +192,101 @@ export interface WebSocketOptions {
    */
   sessionOptions?: RpcSessionOptions;
 
+  /**
+   * Default cache options for the hooks, such as `staleTime`.
+   */
+  queryCache?: CapnWebCacheOptions;
+
+  /**
+   * Receives log output, `console` by default. Connection progress is logged
+   * at the debug and info levels. Pass `false` to silence it.
+   */
+  logger?: CapnWebLogger | false;
+
+  /**
+   * Handshake run against the raw stub after each (re)connect, such as an
+   * `authenticate(token)` call returning the real API stub. The hooks and
+   * `getCapnWebStub()` use the stub it resolves to, and suspend until it has.
+   * With `queueWhileDisconnected`, a handshake started while reconnecting is
+   * queued too. The heartbeat keeps pinging the raw stub.
+   */
+  onSession?: (stub: any) => any;
+
+  /**
+   * When a replacement session connects, drop cached results that were pending
+   * or failed on the old session and re-run the queries of mounted components.
+   * Without it, only subscriptions and `live` queries are re-run.
+   * @default false
+   */
+  refetchOnReconnect?: boolean;
+
+  /**
+   * Queue method calls made through `getCapnWebStub()` and the hooks while
+   * the connection is reconnecting, and send them once the next session
+   * connects, instead of failing them on the dead session. Queued calls are
+   * rejected with a `WebSocketQueueError` if the queue is full, they time out,
+   * reconnection fails, or `close()` is called. Queued calls are sent one by
+   * one, so they can't be pipelined.
+   * @default false
+   */
+  queueWhileDisconnected?: boolean | WebSocketQueueOptions;
+
+  /**
+   * Ping the server periodically while connected. Browsers can take minutes
+   * to notice a dead connection, a ping that goes unanswered marks it
+   * disconnected right away and starts the usual reconnect. The measured
+   * round-trip time is reported as `latencyMs` in the `connected` state.
+   * @default undefined (no pings)
+   */
+  heartbeat?: WebSocketHeartbeatOptions;
+
+  /**
+   * Pause reconnection attempts while the browser is offline, reporting the
+   * `offline` status, and reconnect as soon as it is back online with a fresh
+   * retry budget.
+   * @default true
+   */
+  pauseWhenOffline?: boolean;
+
+  /**
+   * Pause reconnection attempts while the page is hidden, and reconnect as
+   * soon as it becomes visible again with a fresh retry budget. A leader tab
+   * of `shareAcrossTabs` keeps reconnecting while other tabs wait on it.
+   * @default true
+   */
+  pauseWhenHidden?: boolean;
+
+  /**
+   * Share one WebSocket between the tabs of this origin. One tab, elected with
+   * the Web Locks API, opens the WebSocket and relays the RPC sessions of the
+   * other tabs over a BroadcastChannel. When it closes, another tab takes over
+   * and the others reconnect to it, replaying live operations as after any
+   * reconnect. Only the leader tab calls the URL function, and the server can
+   * only call the `localMain` of the leader tab. Without Web Locks or
+   * BroadcastChannel support, every tab opens its own WebSocket.
+   * @default false
+   */
+  shareAcrossTabs?: boolean | WebSocketTabSharingOptions;
+
   /**
    * Callback invoked when the WebSocket connection is successfully established.
    */
   onConnected?: () => void;
 
+  /**
+   * Decides whether to reconnect after the connection closed, so apps can stop
+   * retrying on close codes such as an auth or policy failure. Once it returns
+   * false, the connection stays `disconnected` until `reconnect()` is called.
+   * @default Always reconnect
+   */
+  shouldReconnect?: (event: CloseEvent) => boolean;
+
   /**
    * Callback invoked when the WebSocket connection is lost.
    * @param reason - Optional reason for disconnection
+   * @param event - The close event, with its `code` and `wasClean`
    */
-  onDisconnected?: (reason?: string) => void;
+  onDisconnected?: (reason?: string, event?: CloseEvent) => void;
 
   /**
    * Callback invoked when a reconnection attempt is starting.
@@ -98,6 +310,441 @@ export interface WebSocketCapnWebHooks<T extends RpcCompatible<T>>
    * Returns state object with status and additional information.
    */
   useConnectionState: () => WebSocketConnectionState;
+
+  /**
+   * Drop the current connection, if any, and connect again right away with a
+   * fresh retry budget. Also works after `close()` or once all retries have
+   * been exhausted. Mounted hooks keep working on the new session.
+   */
+  reconnect: () => void;
+
+  /**
+   * Reopen the connection after `close()`. Does nothing while the connection
+   * is open or being (re)established.
+   */
+  open: () => void;
+}
+
+/**
+ * capnweb transport over a WebSocket that is attached once it exists, so a
+ * session can be handed out while the URL is still being resolved. Messages
+ * sent before the socket opens are queued.
+ */
+class DeferredWebSocketTransport implements RpcTransport {
+  #webSocket: WebSocket | null = null;
+  #sendQueue: string[] | null = [];
+  #receiveQueue: string[] = [];
+  #receiveResolver?: (message: string) => void;
+  #receiveRejecter?: (error: any) => void;
+  #error: any;
+
+  get aborted(): boolean {
+    return this.#error !== undefined;
+  }
+
+  attach(webSocket: WebSocket) {
+    this.#webSocket = webSocket;
+    webSocket.addEventListener('open', () => {
+      try {
+        for (const message of this.#sendQueue!) {
+          webSocket.send(message);
+        }
+      } catch (error) {
+        this.fail(error);
+      }
+      this.#sendQueue = null;
+    });
+    webSocket.addEventListener('message', (event) => {
+      if (this.#error) {
+        return;
+      }
+      if (typeof event.data !== 'string') {
+        this.fail(new TypeError('Received non-string message from WebSocket.'));
+      } else if (this.#receiveResolver) {
+        this.#receiveResolver(event.data);
+        this.#receiveResolver = undefined;
+        this.#receiveRejecter = undefined;
+      } else {
+        this.#receiveQueue.push(event.data);
+      }
+    });
+    webSocket.addEventListener('close', (event) => {
+      this.fail(
+        new Error(`Peer closed WebSocket: ${event.code} ${event.reason}`),
+      );
+    });
+    webSocket.addEventListener('error', () => {
+      this.fail(new Error('WebSocket connection failed.'));
+    });
+  }
+
+  fail(reason: any) {
+    if (this.#error) {
+      return;
+    }
+    this.#error = reason;
+    this.#receiveRejecter?.(reason);
+    this.#receiveResolver = undefined;
+    this.#receiveRejecter = undefined;
+  }
+
+  send(message: string): Promise<void> {
+    if (this.#sendQueue) {
+      this.#sendQueue.push(message);
+    } else {
+      this.#webSocket!.send(message);
+    }
+    return Promise.resolve();
+  }
+
+  receive(): Promise<string> {
+    if (this.#receiveQueue.length > 0) {
+      return Promise.resolve(this.#receiveQueue.shift()!);
+    }
+    if (this.#error) {
+      return Promise.reject(this.#error);
+    }
+    return new Promise((resolve, reject) => {
+      this.#receiveResolver = resolve;
+      this.#receiveRejecter = reject;
+    });
+  }
+
+  abort(reason: any) {
+    this.#webSocket?.close(
+      3000,
+      reason instanceof Error ? reason.message : String(reason),
+    );
+    this.fail(reason);
+  }
+}
+
+type TabRole = 'leader' | 'follower';
+
+// Messages on the BroadcastChannel shared by the tabs, relaying capnweb
+// messages between each follower tab and the leader tab
+type TabMessage =
+  | { type: 'connect'; connection: string }
+  | { type: 'accept'; connection: string }
+  | { type: 'message'; connection: string; to: TabRole; data: string }
+  | {
+    type: 'close';
+    connection: string;
+    to: TabRole;
+    code: number;
+    reason: string;
+  }
+  | { type: 'leader' }
+  | { type: 'leader-connected' };
+
+/**
+ * One end of a connection between a follower tab and the leader tab. It acts
+ * like a WebSocket, so the follower's session and the leader's relay session
+ * both run over a DeferredWebSocketTransport.
+ */
+class TabRelaySocket extends EventTarget {
+  #open = false;
+  #closed = false;
+  #post: (message: TabMessage) => void;
+  readonly connection: string;
+  readonly peer: TabRole;
+
+  constructor(
+    connection: string,
+    peer: TabRole,
+    post: (message: TabMessage) => void,
+  ) {
+    super();
+    this.connection = connection;
+    this.peer = peer;
+    this.#post = post;
+  }
+
+  handleOpen() {
+    if (this.#open || this.#closed) {
+      return;
+    }
+    this.#open = true;
+    this.dispatchEvent(new Event('open'));
+  }
+
+  handleMessage(data: string) {
+    if (this.#open && !this.#closed) {
+      this.dispatchEvent(new MessageEvent('message', { data }));
+    }
+  }
+
+  handleClose(code: number, reason: string) {
+    if (this.#closed) {
+      return;
+    }
+    this.#closed = true;
+    // Dispatched asynchronously, like a WebSocket's close event
+    queueMicrotask(() => {
+      this.dispatchEvent(
+        new CloseEvent('close', { code, reason, wasClean: true }),
+      );
+    });
+  }
+
+  send(data: string) {
+    if (!this.#closed) {
+      this.#post({
+        type: 'message',
+        connection: this.connection,
+        to: this.peer,
+        data,
+      });
+    }
+  }
+
+  close(code = 1005, reason = '') {
+    if (this.#closed) {
+      return;
+    }
+    this.#post({
+      type: 'close',
+      connection: this.connection,
+      to: this.peer,
+      code,
+      reason,
+    });
+    this.handleClose(code, reason);
+  }
+}
+
+interface TabSharingCallbacks {
+  // Called when this tab takes over from a previous leader
+  onLeader: () => void;
+  // Session followers are relayed to, or null while it isn't connected
+  getMain: () => any;
+  // Called on the leader when a follower waits for its session to connect
+  onFollowerWaiting: () => void;
+  // Called on followers when the leader's session has connected
+  onLeaderConnected: () => void;
+  sessionOptions?: RpcSessionOptions;
+  logger: CapnWebLogger;
+}
+
+/**
+ * Shares one WebSocket between the tabs of an origin. The tab holding a Web
+ * Lock is the leader and opens the real WebSocket; the others relay their
+ * sessions through it over a BroadcastChannel. When the leader tab goes away,
+ * the next tab waiting for the lock takes over.
+ */
+class TabSharing {
+  #name: string;
+  #callbacks: TabSharingCallbacks;
+  #channel: BroadcastChannel | null = null;
+  #elected: Promise<void> | null = null;
+  #isLeader = false;
+  #abort: AbortController | null = null;
+  #release: (() => void) | null = null;
+  // Relay sockets of this tab: to the leader while following, and one per
+  // follower while leading
+  #sockets = new Map<string, TabRelaySocket>();
+  // Followers waiting for the leader's session to connect
+  #pending = new Set<string>();
+
+  constructor(name: string, callbacks: TabSharingCallbacks) {
+    this.#name = name;
+    this.#callbacks = callbacks;
+  }
+
+  get isLeader(): boolean {
+    return this.#isLeader;
+  }
+
+  // Whether other tabs are relayed through this one or waiting to be
+  get hasFollowers(): boolean {
+    return this.#pending.size > 0 ||
+      [...this.#sockets.values()].some((socket) => socket.peer === 'follower');
+  }
+
+  start() {
+    if (this.#elected) {
+      return;
+    }
+    const abort = new AbortController();
+    this.#abort = abort;
+    this.#channel = new BroadcastChannel(this.#name);
+    this.#channel.addEventListener(
+      'message',
+      (event) => this.#handleMessage(event.data),
+    );
+    this.#elected = new Promise<void>((resolve) => {
+      navigator.locks.request(
+        `${this.#name}:leader`,
+        { ifAvailable: true },
+        (lock) => {
+          resolve();
+          if (abort.signal.aborted) {
+            return;
+          }
+          if (!lock) {
+            this.#waitForLeadership(abort.signal);
+            return;
+          }
+          return this.#lead();
+        },
+      ).catch(() => resolve());
+    });
+  }
+
+  stop() {
+    this.#abort?.abort();
+    this.#release?.();
+    for (const socket of [...this.#sockets.values()]) {
+      socket.close(1001, 'Tab closed the connection');
+    }
+    this.#sockets.clear();
+    this.#pending.clear();
+    this.#channel?.close();
+    this.#channel = null;
+    this.#elected = null;
+    this.#isLeader = false;
+    this.#abort = null;
+    this.#release = null;
+  }
+
+  // Resolves to this tab's role once the first election has settled
+  role(): Promise<TabRole> {
+    return (this.#elected ?? Promise.resolve()).then(() =>
+      this.#isLeader ? 'leader' : 'follower'
+    );
+  }
+
+  // Opens a relay to the leader tab, accepted once its session is connected
+  connect(): WebSocket {
+    const connection = crypto.randomUUID();
+    const socket = this.#addSocket(connection, 'leader');
+    this.#post({ type: 'connect', connection });
+    return socket as unknown as WebSocket;
+  }
+
+  // Lets followers waiting on a retry reconnect now that the leader's session
+  // is connected, and relays the ones already waiting to it
+  handleConnected() {
+    if (!this.#isLeader) {
+      return;
+    }
+    this.#post({ type: 'leader-connected' });
+    this.#acceptPending();
+  }
+
+  // Relays the followers waiting for the leader's session to it
+  #acceptPending() {
+    const main = this.#callbacks.getMain();
+    if (!this.#isLeader || !main) {
+      return;
+    }
+    for (const connection of this.#pending) {
+      const socket = this.#addSocket(connection, 'follower');
+      const transport = new DeferredWebSocketTransport();
+      transport.attach(socket as unknown as WebSocket);
+      // Each relay owns a duplicate, released when the follower disconnects
+      new RpcSession(transport, main.dup(), this.#callbacks.sessionOptions);
+      // Accepted first, as opening flushes the messages sent so far
+      this.#post({ type: 'accept', connection });
+      socket.handleOpen();
+    }
+    this.#pending.clear();
+  }
+
+  // Passes on the loss of the leader's session to every follower
+  closeFollowers(code: number, reason: string) {
+    for (const socket of [...this.#sockets.values()]) {
+      if (socket.peer === 'follower') {
+        socket.close(code, reason);
+      }
+    }
+  }
+
+  #addSocket(connection: string, peer: TabRole): TabRelaySocket {
+    const socket = new TabRelaySocket(
+      connection,
+      peer,
+      (message) => this.#post(message),
+    );
+    this.#sockets.set(connection, socket);
+    socket.addEventListener('close', () => {
+      if (this.#sockets.get(connection) === socket) {
+        this.#sockets.delete(connection);
+      }
+    });
+    return socket;
+  }
+
+  #post(message: TabMessage) {
+    this.#channel?.postMessage(message);
+  }
+
+  #lead(): Promise<void> {
+    this.#isLeader = true;
+    // Followers of the previous leader reconnect through this tab
+    this.#post({ type: 'leader' });
+    return new Promise((resolve) => {
+      this.#release = resolve;
+    });
+  }
+
+  #waitForLeadership(signal: AbortSignal) {
+    navigator.locks.request(`${this.#name}:leader`, { signal }, () => {
+      const held = this.#lead();
+      this.#callbacks.logger.info(
+        'Taking over the WebSocket connection shared across tabs',
+      );
+      this.#callbacks.onLeader();
+      return held;
+    }).catch(() => {
+      // Aborted by stop()
+    });
+  }
+
+  #handleMessage(message: TabMessage) {
+    switch (message.type) {
+      case 'connect':
+        if (this.#isLeader) {
+          this.#pending.add(message.connection);
+          this.#acceptPending();
+          if (this.#pending.size > 0) {
+            this.#callbacks.onFollowerWaiting();
+          }
+        }
+        break;
+      case 'accept':
+        this.#sockets.get(message.connection)?.handleOpen();
+        break;
+      case 'message': {
+        const socket = this.#sockets.get(message.connection);
+        if (socket && socket.peer !== message.to) {
+          socket.handleMessage(message.data);
+        }
+        break;
+      }
+      case 'close': {
+        this.#pending.delete(message.connection);
+        const socket = this.#sockets.get(message.connection);
+        if (socket && socket.peer !== message.to) {
+          socket.handleClose(message.code, message.reason);
+        }
+        break;
+      }
+      case 'leader':
+        // Relays to the previous leader are dead, reconnect to the new one
+        if (!this.#isLeader) {
+          for (const socket of [...this.#sockets.values()]) {
+            socket.handleClose(1001, 'Leader tab changed');
+          }
+        }
+        break;
+      case 'leader-connected':
+        if (!this.#isLeader) {
+          this.#callbacks.onLeaderConnected();
+        }
+        break;
+    }
+  }
 }
 
 /**
@@ -115,7 +762,16 @@ const defaultOptions: Required<
   Omit<
     WebSocketOptions,
     | 'localMain'
+    | 'protocols'
     | 'sessionOptions'
+    | 'queryCache'
+    | 'logger'
+    | 'refetchOnReconnect'
+    | 'queueWhileDisconnected'
+    | 'heartbeat'
+    | 'shareAcrossTabs'
+    | 'onSession'
+    | 'shouldReconnect'
     | 'onConnected'
     | 'onDisconnected'
     | 'onReconnecting'
@@ -124,7 +780,11 @@ const defaultOptions: Required<
 > = {
   timeout: 5000,
   retries: 10,
+  maxBackoffMs: Infinity,
+  resetRetriesAfterMs: 0,
   backoffStrategy: defaultBackoffStrategy,
+  pauseWhenOffline: true,
+  pauseWhenHidden: true,
 };
 
 /**
@@ -133,7 +793,8 @@ const defaultOptions: Required<
  * This transport maintains a persistent bidirectional connection, allowing:
  * - Multiple RPC calls over time without reconnecting
  * - Server-initiated calls back to the client (via localMain)
- * - Automatic reconnection with configurable retry logic
+ * - Automatic reconnection with configurable retry logic, replaying
+ *   subscriptions and `live` queries on the new session
  * - Pipelining for reduced latency
  *
  * The WebSocket connection persists across provider mount/unmount cycles,
@@ -158,35 +819,100 @@ const defaultOptions: Required<
  * close();
  * ```
  *
- * @param wsUrl - WebSocket URL to connect to (e.g., 'ws://localhost:8080/api')
+ * @param wsUrl - WebSocket URL to connect to (e.g., 'ws://localhost:8080/api'),
+ * or a sync or async function returning it, called before every connection attempt
  * @param options - Configuration options for the WebSocket connection
  * @returns React hooks for interacting with the RPC API, plus a close() function
  */
 export function initCapnWebSocket<T extends RpcCompatible<T>>(
-  wsUrl: string,
+  wsUrl: WebSocketUrl,
   options: WebSocketOptions = {},
 ): WebSocketCapnWebHooks<T> {
   const opts = { ...defaultOptions, ...options };
+  const logger = resolveLogger(options.logger);
 
   // Connection state lives in closure, persists across provider mount/unmount
   let currentWs: WebSocket | null = null;
   let retryCount = 0;
   let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
   let connectionTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Resets the retry count once the connection has stayed open long enough
+  let stableTimeout: ReturnType<typeof setTimeout> | null = null;
   let isReconnecting = false;
   let connectionState: WebSocketConnectionState = {
     status: 'connecting',
     attempt: 0,
   };
   const stateListeners = new Set<(state: WebSocketConnectionState) => void>();
+  // Called when a replacement session connects, to replay live operations
+  const reconnectListeners = new Set<() => void>();
+  let hasConnected = false;
+  const queueOptions = options.queueWhileDisconnected === true
+    ? {}
+    : options.queueWhileDisconnected || null;
+  const callQueue: {
+    method: string;
+    args: any[];
+    resolve: (value: any) => void;
+    reject: (error: WebSocketQueueError) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }[] = [];
+  const heartbeatOptions = options.heartbeat ?? null;
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  // Identifies the latest connection attempt, whose URL may still be resolving
+  let connectAttempt = 0;
+  // Set while reconnecting waits for the browser to be online and visible
+  let reconnectPaused = false;
+  // Set when shouldReconnect declined, so regaining focus or connectivity
+  // doesn't reconnect either
+  let reconnectRefused = false;
+  // Stub handed out for the current session, see getCapnWebStub()
+  let queueingStub: { session: any; stub: any; adopting?: boolean } | null =
+    null;
+  const tabs = createTabSharing();
+  tabs?.start();
   let session = initWebsocket();
+  addNetworkListeners();
+
+  function createTabSharing(): TabSharing | null {
+    if (
+      !options.shareAcrossTabs || typeof navigator === 'undefined' ||
+      !navigator.locks || typeof BroadcastChannel === 'undefined'
+    ) {
+      return null;
+    }
+    const { name = typeof wsUrl === 'string' ? wsUrl : 'react-capnweb' } =
+      options.shareAcrossTabs === true ? {} : options.shareAcrossTabs;
+    return new TabSharing(`react-capnweb:${name}`, {
+      onLeader() {
+        // Replace the relay to the previous leader with a real WebSocket
+        if (connectionState.status !== 'closed' && !shouldPauseReconnect()) {
+          startFreshSession();
+        }
+      },
+      getMain: () => connectionState.status === 'connected' ? session : null,
+      onFollowerWaiting() {
+        // A hidden leader paused its reconnection, but the follower needs it
+        if (reconnectPaused) {
+          resumeReconnect();
+        }
+      },
+      onLeaderConnected() {
+        // Retry right away instead of after the backoff, or after running out
+        // of retries while the leader was away
+        resumeReconnect();
+      },
+      sessionOptions: options.sessionOptions,
+      logger,
+    });
+  }
 
   function disposeSession(sess: any) {
     if (sess && typeof sess[Symbol.dispose] === 'function') {
       try {
         sess[Symbol.dispose]();
       } catch (error) {
-        console.error('Error disposing WebSocket session:', error);
+        logger.error('Error disposing WebSocket session:', error);
       }
     }
   }
@@ -196,26 +922,63 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
     stateListeners.forEach((listener) => listener(connectionState));
   }
 
-  function handleClose(_event: CloseEvent) {
+  function handleClose(event: CloseEvent) {
     if (connectionState.status === 'closed') {
       return;
     }
 
+    // Followers relayed through this tab lost their connection as well
+    if (tabs?.isLeader) {
+      tabs.closeFollowers(event.code, event.reason);
+    }
+
+    stopHeartbeat();
+
     // Clear connection timeout if it exists
     if (connectionTimeout) {
       clearTimeout(connectionTimeout);
       connectionTimeout = null;
     }
 
+    // The connection dropped before it counted as stable
+    if (stableTimeout) {
+      clearTimeout(stableTimeout);
+      stableTimeout = null;
+    }
+
     // Prevent concurrent reconnection attempts
     if (isReconnecting) {
       return;
     }
 
     // Update state and notify
-    setConnectionState({ status: 'disconnected' });
+    const reason = event.reason || undefined;
+    setConnectionState({
+      status: 'disconnected',
+      reason,
+      code: event.code,
+      wasClean: event.wasClean,
+    });
     if (options.onDisconnected) {
-      options.onDisconnected();
+      options.onDisconnected(reason, event);
+    }
+
+    if (options.shouldReconnect && !options.shouldReconnect(event)) {
+      logger.info(
+        `WebSocket closed with code ${event.code}, not reconnecting`,
+      );
+      reconnectRefused = true;
+      rejectQueuedCalls(
+        'reconnect-failed',
+        'WebSocket closed without reconnecting before the call could be sent',
+      );
+      return;
+    }
+
+    // Retrying now would only use up the retries
+    if (shouldPauseReconnect()) {
+      pauseReconnect();
+      return;
     }
 
     // Check if we should retry
@@ -224,12 +987,17 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
       retryCount++;
 
       // Calculate delay using backoff strategy
-      const delay = opts.backoffStrategy(retryCount);
+      const delay = Math.min(
+        opts.backoffStrategy(retryCount),
+        opts.maxBackoffMs,
+      );
 
-      console.log(
-        `WebSocket closed. Reconnecting in ${
-          Math.round(delay)
-        }ms (attempt ${retryCount}/${opts.retries})`,
+      logger.info(
+        `WebSocket closed. Reconnecting in ${Math.round(delay)}ms (attempt ${
+          Number.isFinite(opts.retries)
+            ? `${retryCount}/${opts.retries}`
+            : retryCount
+        })`,
       );
 
       setConnectionState({
@@ -245,38 +1013,275 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
       reconnectTimeout = setTimeout(() => {
         isReconnecting = false;
         reconnectTimeout = null;
+        // The page may have been hidden during the backoff
+        if (shouldPauseReconnect()) {
+          pauseReconnect();
+          return;
+        }
         // Dispose old session before creating new one
         disposeSession(session);
         session = initWebsocket();
       }, delay);
     } else {
-      console.error(
+      logger.error(
         `Max WebSocket retries (${opts.retries}) reached. Connection failed.`,
       );
       setConnectionState({
         status: 'disconnected',
         reason: 'Max retries reached',
+        code: event.code,
+        wasClean: event.wasClean,
       });
+      rejectQueuedCalls(
+        'reconnect-failed',
+        'WebSocket reconnection failed before the call could be sent',
+      );
       if (options.onReconnectFailed) {
         options.onReconnectFailed();
       }
     }
   }
 
-  function initWebsocket() {
-    console.log('Starting WebSocket connection to', wsUrl);
-    const ws = new WebSocket(wsUrl);
-    currentWs = ws;
+  function isOffline() {
+    return opts.pauseWhenOffline && typeof navigator !== 'undefined' &&
+      navigator.onLine === false;
+  }
+
+  function isHidden() {
+    return opts.pauseWhenHidden && typeof document !== 'undefined' &&
+      document.visibilityState === 'hidden';
+  }
+
+  // A hidden leader keeps reconnecting while other tabs depend on it
+  function shouldPauseReconnect() {
+    return isOffline() || (isHidden() && !tabs?.hasFollowers);
+  }
+
+  function pauseReconnect() {
+    if (reconnectTimeout) {
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = null;
+    }
+    isReconnecting = false;
+    reconnectPaused = true;
+    if (isOffline()) {
+      logger.info('Browser is offline, pausing WebSocket reconnection');
+      setConnectionState({ status: 'offline' });
+    } else {
+      logger.info('Page is hidden, pausing WebSocket reconnection');
+      setConnectionState({
+        status: 'disconnected',
+        reason: 'Paused while the page is hidden',
+      });
+    }
+  }
+
+  // Reconnects right away with a fresh retry budget when connectivity or
+  // focus returns, unless a connection is already open or being opened
+  function resumeReconnect() {
+    const { status } = connectionState;
+    if (
+      status === 'connected' || status === 'connecting' ||
+      status === 'closed' || reconnectRefused || shouldPauseReconnect()
+    ) {
+      return;
+    }
+    logger.info('Connectivity restored, reconnecting WebSocket');
+    startFreshSession();
+  }
+
+  // Replaces the session with a new connection and a fresh retry budget,
+  // abandoning the current socket and any scheduled retry
+  function startFreshSession() {
+    stopHeartbeat();
+    if (reconnectTimeout) {
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = null;
+    }
+    if (connectionTimeout) {
+      clearTimeout(connectionTimeout);
+      connectionTimeout = null;
+    }
+    if (stableTimeout) {
+      clearTimeout(stableTimeout);
+      stableTimeout = null;
+    }
+    isReconnecting = false;
+    reconnectPaused = false;
+    reconnectRefused = false;
+    retryCount = 0;
+    // Clearing currentWs first makes the old socket's close event a no-op
+    const oldWs = currentWs;
+    currentWs = null;
+    oldWs?.close();
+    if (tabs?.isLeader) {
+      tabs.closeFollowers(1012, 'Leader tab reconnecting');
+    }
+    disposeSession(session);
+    session = initWebsocket();
+  }
+
+  function reconnect() {
+    if (connectionState.status === 'closed') {
+      open();
+      return;
+    }
+    logger.info('Reconnecting WebSocket on request');
+    startFreshSession();
+  }
+
+  function open() {
+    if (connectionState.status !== 'closed') {
+      return;
+    }
+    logger.info('Reopening closed WebSocket');
+    tabs?.start();
+    addNetworkListeners();
+    startFreshSession();
+  }
 
+  function handleOffline() {
+    // A connected socket reports its own close, only stop pending retries
+    if (connectionState.status === 'reconnecting' && isOffline()) {
+      pauseReconnect();
+    }
+  }
+
+  function handleVisibilityChange() {
+    if (document.visibilityState === 'visible') {
+      resumeReconnect();
+    }
+  }
+
+  function addNetworkListeners() {
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('online', resumeReconnect);
+      globalThis.addEventListener('offline', handleOffline);
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
+  }
+
+  function removeNetworkListeners() {
+    if (typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('online', resumeReconnect);
+      globalThis.removeEventListener('offline', handleOffline);
+    }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+  }
+
+  function initWebsocket() {
     // Update state to connecting
     setConnectionState({
       status: 'connecting',
       attempt: retryCount || 0,
     });
+    const attempt = ++connectAttempt;
+
+    // Tabs following the leader of a shared connection relay through it
+    // instead of resolving the URL, which null stands for
+    const url: string | Promise<string | null> = tabs
+      ? tabs.role().then((role) => role === 'leader' ? resolveUrl() : null)
+      : resolveUrl();
+    if (typeof url === 'string') {
+      const sess = newWebSocketRpcSession(
+        openWebSocket(url),
+        options.localMain,
+        options.sessionOptions,
+      );
+      logger.debug('Created new Websocket Session...');
+      return sess;
+    }
+
+    // Hand out the session right away, calls are sent once the socket opens
+    const transport = new DeferredWebSocketTransport();
+    const isCurrent = () => attempt === connectAttempt && !transport.aborted;
+    const failAttempt = (error: unknown, reason: string) => {
+      transport.fail(error);
+      // Counts as a failed connection attempt
+      handleClose(new CloseEvent('close', { code: 1006, reason }));
+    };
+
+    // A URL function that never settles must not hang the connection either
+    connectionTimeout = setTimeout(() => {
+      connectionTimeout = null;
+      if (isCurrent()) {
+        logger.warn(
+          `WebSocket URL not resolved within ${opts.timeout}ms, retrying`,
+        );
+        failAttempt(
+          new Error('Timed out getting WebSocket URL'),
+          'Timed out getting WebSocket URL',
+        );
+      }
+    }, opts.timeout);
+
+    url.then((resolvedUrl) => {
+      if (!isCurrent()) {
+        return;
+      }
+      // watchWebSocket() arms the timeout for opening the socket itself
+      if (connectionTimeout) {
+        clearTimeout(connectionTimeout);
+        connectionTimeout = null;
+      }
+      try {
+        transport.attach(
+          resolvedUrl === null
+            ? watchWebSocket(tabs!.connect())
+            : openWebSocket(resolvedUrl),
+        );
+      } catch (error) {
+        // Such as a malformed URL or invalid protocols
+        logger.warn('Failed to open WebSocket:', error);
+        failAttempt(error, 'Failed to open WebSocket');
+      }
+    }, (error) => {
+      if (!isCurrent()) {
+        return;
+      }
+      logger.warn('Failed to get WebSocket URL:', error);
+      failAttempt(error, 'Failed to get WebSocket URL');
+    });
+    const sess = new RpcSession(
+      transport,
+      options.localMain,
+      options.sessionOptions,
+    ).getRemoteMain();
+    logger.debug('Created new Websocket Session...');
+    return sess;
+  }
+
+  // Only a fixed URL is opened synchronously. URLs from the function go
+  // through initWebsocket's asynchronous path, which handles a throwing or
+  // hanging function and URLs the WebSocket constructor rejects.
+  function resolveUrl(): string | Promise<string> {
+    if (typeof wsUrl === 'string') {
+      return wsUrl;
+    }
+    try {
+      return Promise.resolve(wsUrl());
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  function openWebSocket(url: string): WebSocket {
+    // Leave out the query string, which may carry credentials
+    logger.debug('Starting WebSocket connection to', url.split('?')[0]);
+    return watchWebSocket(new WebSocket(url, options.protocols));
+  }
+
+  // Tracks a new socket, either a WebSocket or a relay to the leader tab
+  function watchWebSocket(ws: WebSocket): WebSocket {
+    currentWs = ws;
 
     // Set connection timeout
     connectionTimeout = setTimeout(() => {
-      console.log(
+      logger.warn(
         `WebSocket connection timeout (${opts.timeout}ms) reached, closing`,
       );
       ws.close();
@@ -284,9 +1289,22 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
     }, opts.timeout);
 
     ws.addEventListener('open', () => {
-      // Connection successful, reset retry count
-      retryCount = 0;
-      console.log('WebSocket connection opened successfully');
+      // Connection successful, reset retry count once it proves stable
+      if (opts.resetRetriesAfterMs > 0) {
+        stableTimeout = setTimeout(() => {
+          retryCount = 0;
+          stableTimeout = null;
+        }, opts.resetRetriesAfterMs);
+      } else {
+        retryCount = 0;
+      }
+      reconnectPaused = false;
+      logger.info('WebSocket connection opened successfully');
+
+      // The stub handed out while calls were held belongs to this session
+      if (queueingStub?.adopting) {
+        queueingStub = { session, stub: queueingStub.stub };
+      }
 
       // Clear connection timeout
       if (connectionTimeout) {
@@ -299,10 +1317,20 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
       if (options.onConnected) {
         options.onConnected();
       }
+      tabs?.handleConnected();
+
+      flushQueuedCalls();
+      startHeartbeat(ws);
+
+      // Only sessions replacing a lost one need live operations replayed
+      if (hasConnected) {
+        reconnectListeners.forEach((listener) => listener());
+      }
+      hasConnected = true;
     });
 
     ws.addEventListener('error', (error) => {
-      console.error('WebSocket error:', error);
+      logger.warn('WebSocket error:', error);
 
       // Clear connection timeout on error
       if (connectionTimeout) {
@@ -312,20 +1340,76 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
     });
 
     ws.addEventListener('close', (event) => {
-      console.log('WebSocket closed');
-      handleClose(event);
+      logger.debug('WebSocket closed');
+      // A socket given up on by the heartbeat was already handled
+      if (ws === currentWs) {
+        handleClose(event);
+      }
     });
 
-    const sess = newWebSocketRpcSession(
-      ws,
-      options.localMain,
-      options.sessionOptions,
-    );
-    console.log('Created new Websocket Session...');
-    return sess;
+    return ws;
+  }
+
+  function startHeartbeat(ws: WebSocket) {
+    if (!heartbeatOptions) {
+      return;
+    }
+    const { interval = 30000, timeout = 10000, method } = heartbeatOptions;
+    let awaitingPong = false;
+
+    heartbeatInterval = setInterval(() => {
+      if (awaitingPong) {
+        return;
+      }
+      awaitingPong = true;
+      const sentAt = Date.now();
+      const pingTimeout = setTimeout(() => {
+        if (ws !== currentWs) {
+          return;
+        }
+        logger.warn(
+          `WebSocket heartbeat not answered within ${timeout}ms, reconnecting`,
+        );
+        // Closing a dead socket can take as long as noticing it is dead, so
+        // stop waiting for its close event
+        currentWs = null;
+        ws.close();
+        handleClose(
+          new CloseEvent('close', { code: 4000, reason: 'Heartbeat timeout' }),
+        );
+      }, timeout);
+
+      // Any answer shows the connection is alive, even an error
+      const onPong = () => {
+        clearTimeout(pingTimeout);
+        awaitingPong = false;
+        if (ws === currentWs && connectionState.status === 'connected') {
+          setConnectionState({
+            status: 'connected',
+            latencyMs: Date.now() - sentAt,
+          });
+        }
+      };
+      Promise.resolve()
+        .then(() => (session as any)[method]())
+        .then(onPong, onPong);
+    }, interval);
+  }
+
+  function stopHeartbeat() {
+    if (heartbeatInterval) {
+      clearInterval(heartbeatInterval);
+      heartbeatInterval = null;
+    }
   }
 
   function close() {
+    stopHeartbeat();
+    removeNetworkListeners();
+    reconnectPaused = false;
+    // Hands the shared connection over to another tab
+    tabs?.stop();
+
     // Clear any pending reconnection timeout
     if (reconnectTimeout) {
       clearTimeout(reconnectTimeout);
@@ -338,6 +1422,11 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
       connectionTimeout = null;
     }
 
+    if (stableTimeout) {
+      clearTimeout(stableTimeout);
+      stableTimeout = null;
+    }
+
     // Close the WebSocket
     if (currentWs) {
       currentWs.close();
@@ -350,6 +1439,58 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
 
     // Update state
     setConnectionState({ status: 'closed' });
+    rejectQueuedCalls(
+      'closed',
+      'WebSocket was closed before the call could be sent',
+    );
+  }
+
+  function enqueueCall(method: string, args: any[]): Promise<any> {
+    const { maxSize = 100, timeout = 30000 } = queueOptions!;
+    if (callQueue.length >= maxSize) {
+      return Promise.reject(
+        new WebSocketQueueError(
+          'queue-full',
+          `WebSocket call queue is full (${maxSize} calls)`,
+        ),
+      );
+    }
+    return new Promise((resolve, reject) => {
+      const call = {
+        method,
+        args,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          callQueue.splice(callQueue.indexOf(call), 1);
+          reject(
+            new WebSocketQueueError(
+              'timeout',
+              `WebSocket call '${method}' timed out after ${timeout}ms in the queue`,
+            ),
+          );
+        }, timeout),
+      };
+      callQueue.push(call);
+    });
+  }
+
+  function flushQueuedCalls() {
+    for (const call of callQueue.splice(0)) {
+      clearTimeout(call.timer);
+      try {
+        call.resolve((session as any)[call.method](...call.args));
+      } catch (error) {
+        call.reject(error as WebSocketQueueError);
+      }
+    }
+  }
+
+  function rejectQueuedCalls(code: WebSocketQueueErrorCode, message: string) {
+    for (const call of callQueue.splice(0)) {
+      clearTimeout(call.timer);
+      call.reject(new WebSocketQueueError(code, message));
+    }
   }
 
   function useConnectionState(): WebSocketConnectionState {
@@ -376,13 +1517,58 @@ export function initCapnWebSocket<T extends RpcCompatible<T>>(
   }
 
   function getCapnWebStub(): RpcStub<T> {
-    return session as any;
+    if (!queueOptions) {
+      return session as any;
+    }
+    // A new stub per session, so the hooks can tell their sessions apart.
+    // One handed out while calls are held is adopted by the next session to
+    // open, so work started meanwhile, like an onSession handshake, is not
+    // redone once that session connects.
+    const holding = connectionState.status === 'reconnecting' ||
+      reconnectPaused;
+    if (
+      !queueingStub ||
+      (holding
+        ? !queueingStub.adopting
+        : queueingStub.session !== session && !queueingStub.adopting)
+    ) {
+      queueingStub = {
+        session,
+        adopting: holding,
+        stub: new Proxy({}, {
+          get(_target, prop) {
+            // Stub methods such as dup() are local and never queued
+            if (
+              (connectionState.status !== 'reconnecting' && !reconnectPaused) ||
+              typeof prop !== 'string' || prop === 'then' ||
+              prop in RpcStub.prototype
+            ) {
+              return (session as any)[prop];
+            }
+            return (...args: any[]) => enqueueCall(prop, args);
+          },
+        }),
+      };
+    }
+    return queueingStub.stub;
+  }
+
+  function subscribeToReconnect(listener: () => void) {
+    reconnectListeners.add(listener);
   }
 
-  const hooks = createCapnWebHooksWithLifecycle<T>(getCapnWebStub, close);
+  const hooks = createCapnWebHooksWithLifecycle<T>(getCapnWebStub, close, {
+    queryCache: options.queryCache,
+    subscribeToReconnect,
+    refetchOnReconnect: options.refetchOnReconnect,
+    onSession: options.onSession,
+    logger,
+  });
 
   return {
     ...hooks,
     useConnectionState,
+    reconnect,
+    open,
   };
 }